@@ -0,0 +1,283 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Bell, Check, Clock, SlidersHorizontal } from 'lucide-react';
+
+type AlertRule = 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+
+interface Alert {
+  id: string;
+  rule: AlertRule;
+  message: string;
+  created_at: string;
+}
+
+interface RuleSetting {
+  rule: AlertRule;
+  enabled: boolean;
+  threshold: number;
+}
+
+type ShopRole = 'owner' | 'manager' | 'staff' | 'viewer';
+
+interface AlertBellProps {
+  shopId: string;
+}
+
+const RULES: { rule: AlertRule; label: string }[] = [
+  { rule: 'below_reorder_point', label: 'Stock below reorder point' },
+  { rule: 'high_risk', label: 'High stockout risk' },
+  { rule: 'forecast_drop', label: 'Forecast demand drops by more than' },
+];
+
+const SNOOZE_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '1 week', days: 7 },
+];
+
+const DEFAULT_DROP_THRESHOLD = 30;
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export default function AlertBell({ shopId }: AlertBellProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<RuleSetting[]>([]);
+  const [ruleError, setRuleError] = useState('');
+  const [role, setRole] = useState<ShopRole | null>(null);
+  const [snoozing, setSnoozing] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadAlerts();
+    loadRules();
+    setShowRules(false);
+    setRuleError('');
+    const interval = setInterval(loadAlerts, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [shopId]);
+
+  useEffect(() => {
+    loadRole();
+  }, [shopId, user?.id]);
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const loadAlerts = async () => {
+    const { data } = await supabase
+      .from('alerts')
+      .select('id, rule, message, created_at')
+      .eq('shop_id', shopId)
+      .is('acknowledged_at', null)
+      .or(`snoozed_until.is.null,snoozed_until.lte.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false });
+
+    setAlerts(data || []);
+  };
+
+  const loadRules = async () => {
+    const { data } = await supabase
+      .from('alert_rules')
+      .select('rule, enabled, threshold')
+      .eq('shop_id', shopId);
+
+    setRules(
+      RULES.map(({ rule }) => {
+        const saved = data?.find((r) => r.rule === rule);
+        return {
+          rule,
+          enabled: saved?.enabled ?? true,
+          threshold: saved ? Number(saved.threshold) : DEFAULT_DROP_THRESHOLD,
+        };
+      })
+    );
+  };
+
+  const loadRole = async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('shop_members')
+      .select('role')
+      .eq('shop_id', shopId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    setRole(data?.role ?? null);
+  };
+
+  // Alert rules are shop-wide, so only owners and managers can change them
+  const canEditRules = role === 'owner' || role === 'manager';
+
+  const saveRule = async (setting: RuleSetting) => {
+    const previous = rules.find((r) => r.rule === setting.rule);
+    setRuleError('');
+    setRules((current) => current.map((r) => (r.rule === setting.rule ? setting : r)));
+
+    const { error } = await supabase
+      .from('alert_rules')
+      .upsert({ shop_id: shopId, ...setting }, { onConflict: 'shop_id,rule' });
+
+    if (error) {
+      setRules((current) => current.map((r) => (r.rule === setting.rule && previous ? previous : r)));
+      setRuleError(`Could not save the rule: ${error.message}`);
+    }
+  };
+
+  const acknowledge = async (ids: string[]) => {
+    setAlerts((current) => current.filter((alert) => !ids.includes(alert.id)));
+    await supabase
+      .from('alerts')
+      .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: user?.id })
+      .in('id', ids);
+  };
+
+  const snooze = async (id: string, days: number) => {
+    setSnoozing(null);
+    setAlerts((current) => current.filter((alert) => alert.id !== id));
+    await supabase
+      .from('alerts')
+      .update({ snoozed_until: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() })
+      .eq('id', id);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => {
+          if (!open) loadAlerts();
+          setOpen(!open);
+        }}
+        className="relative p-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+      >
+        <Bell className="w-5 h-5" />
+        {alerts.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-bold">
+            {alerts.length > 99 ? '99+' : alerts.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-900">Alerts</h3>
+            <div className="flex items-center gap-2">
+              {alerts.length > 0 && (
+                <button
+                  onClick={() => acknowledge(alerts.map((alert) => alert.id))}
+                  className="text-xs font-medium text-blue-600 hover:text-blue-700"
+                >
+                  Acknowledge all
+                </button>
+              )}
+              {canEditRules && (
+                <button
+                  onClick={() => setShowRules(!showRules)}
+                  className={`p-1 rounded transition ${
+                    showRules ? 'text-blue-600 bg-blue-50' : 'text-gray-500 hover:bg-gray-100'
+                  }`}
+                  title="Alert rules"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {showRules && canEditRules && (
+            <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 space-y-2">
+              {rules.map((setting) => (
+                <label key={setting.rule} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={setting.enabled}
+                    onChange={(e) => saveRule({ ...setting, enabled: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {RULES.find((r) => r.rule === setting.rule)?.label}
+                  {setting.rule === 'forecast_drop' && (
+                    <>
+                      <input
+                        key={`${shopId}-${setting.threshold}`}
+                        type="number"
+                        min="1"
+                        max="100"
+                        defaultValue={setting.threshold}
+                        onBlur={(e) =>
+                          saveRule({ ...setting, threshold: parseFloat(e.target.value) || DEFAULT_DROP_THRESHOLD })
+                        }
+                        className="w-16 px-2 py-0.5 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      %
+                    </>
+                  )}
+                </label>
+              ))}
+              {ruleError && <p className="text-xs text-red-600">{ruleError}</p>}
+              <p className="text-xs text-gray-500">Rules are checked whenever forecasts are saved or stock falls</p>
+            </div>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            {alerts.length === 0 ? (
+              <p className="px-4 py-8 text-sm text-center text-gray-600">No open alerts</p>
+            ) : (
+              alerts.map((alert) => (
+                <div key={alert.id} className="px-4 py-3 border-b border-gray-100 last:border-0">
+                  <p className="text-sm text-gray-900">{alert.message}</p>
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-xs text-gray-500">
+                      {new Date(alert.created_at).toLocaleString('en-IN', {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {snoozing === alert.id ? (
+                        SNOOZE_OPTIONS.map((option) => (
+                          <button
+                            key={option.days}
+                            onClick={() => snooze(alert.id, option.days)}
+                            className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded transition"
+                          >
+                            {option.label}
+                          </button>
+                        ))
+                      ) : (
+                        <button
+                          onClick={() => setSnoozing(alert.id)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded transition"
+                        >
+                          <Clock className="w-3 h-3" />
+                          Snooze
+                        </button>
+                      )}
+                      <button
+                        onClick={() => acknowledge([alert.id])}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition"
+                      >
+                        <Check className="w-3 h-3" />
+                        Acknowledge
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
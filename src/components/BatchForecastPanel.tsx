@@ -0,0 +1,337 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Layers, ArrowUpDown } from 'lucide-react';
+import { SalesDataPoint, FestivalEvent } from '../utils/forecasting';
+import { GapFillMethod } from '../utils/preprocessing';
+import { productInventoryPolicy } from '../utils/inventory';
+import {
+  toForecastRows,
+  BatchForecastMessage,
+  BatchForecastOutcome,
+  BatchForecastRequest,
+} from '../utils/batchForecast';
+
+interface Product {
+  id: string;
+  name: string;
+  brand: string;
+  current_stock: number;
+  unit_price: number;
+  lead_time_days: number;
+  service_level: number;
+  gap_fill: GapFillMethod;
+  case_pack_size: number;
+  minimum_order_quantity: number;
+  cost_price: number;
+  suppliers: { lead_time_days: number } | null;
+}
+
+interface SummaryRow {
+  productId: string;
+  name: string;
+  brand: string;
+  currentStock: number;
+  demand: number | null;
+  recommendedStock: number | null;
+  riskLevel: 'Low' | 'Medium' | 'High' | null;
+  confidence: number | null;
+  model: string | null;
+  status: BatchForecastOutcome['status'];
+  reason: string | null;
+}
+
+type SortKey = 'name' | 'demand' | 'recommendedStock' | 'riskLevel' | 'confidence';
+
+interface BatchForecastPanelProps {
+  shopId: string;
+  products: Product[];
+  horizon: number;
+  festivals: FestivalEvent[];
+  today: string;
+}
+
+const SALES_PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+const RISK_ORDER = { High: 3, Medium: 2, Low: 1 };
+
+export default function BatchForecastPanel({ shopId, products, horizon, festivals, today }: BatchForecastPanelProps) {
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [rows, setRows] = useState<SummaryRow[]>([]);
+  const [error, setError] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('riskLevel');
+  const [sortAsc, setSortAsc] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const loadShopSales = async (): Promise<Map<string, SalesDataPoint[]>> => {
+    const byProduct = new Map<string, SalesDataPoint[]>();
+
+    for (let from = 0; ; from += SALES_PAGE_SIZE) {
+      const { data, error: salesError } = await supabase
+        .from('sales_data')
+        .select('product_id, date, quantity_sold, is_festival')
+        .eq('shop_id', shopId)
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + SALES_PAGE_SIZE - 1);
+
+      if (salesError) throw new Error(salesError.message);
+      for (const { product_id, ...point } of data ?? []) {
+        const points = byProduct.get(product_id);
+        if (points) {
+          points.push(point);
+        } else {
+          byProduct.set(product_id, [point]);
+        }
+      }
+      if (!data || data.length < SALES_PAGE_SIZE) return byProduct;
+    }
+  };
+
+  const saveForecasts = async (outcomes: BatchForecastOutcome[]) => {
+    const forecastRows = outcomes.flatMap((outcome) =>
+      outcome.status === 'ok'
+        ? toForecastRows(shopId, outcome.productId, outcome.forecast, outcome.recommendation)
+        : []
+    );
+
+    for (let i = 0; i < forecastRows.length; i += INSERT_CHUNK_SIZE) {
+      const { error: insertError } = await supabase
+        .from('forecasts')
+        .insert(forecastRows.slice(i, i + INSERT_CHUNK_SIZE));
+      if (insertError) throw new Error(insertError.message);
+    }
+  };
+
+  const toSummaryRow = (outcome: BatchForecastOutcome): SummaryRow => {
+    const product = products.find((p) => p.id === outcome.productId);
+    const base = {
+      productId: outcome.productId,
+      name: product?.name ?? '',
+      brand: product?.brand ?? '',
+      currentStock: product?.current_stock ?? 0,
+    };
+
+    return outcome.status === 'ok'
+      ? {
+          ...base,
+          demand: outcome.recommendation.forecastedDemand,
+          recommendedStock: outcome.recommendation.recommendedStock,
+          riskLevel: outcome.recommendation.riskLevel,
+          confidence: outcome.forecast.confidence,
+          model: outcome.forecast.model,
+          status: outcome.status,
+          reason: null,
+        }
+      : {
+          ...base,
+          demand: null,
+          recommendedStock: null,
+          riskLevel: null,
+          confidence: null,
+          model: null,
+          status: outcome.status,
+          reason: outcome.reason,
+        };
+  };
+
+  const forecastAll = async () => {
+    setRunning(true);
+    setError('');
+    setRows([]);
+    setProgress({ completed: 0, total: products.length });
+
+    let sales: Map<string, SalesDataPoint[]>;
+    try {
+      sales = await loadShopSales();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load sales data');
+      setRunning(false);
+      return;
+    }
+
+    const request: BatchForecastRequest = {
+      horizon,
+      festivals,
+      today,
+      products: products.map((p) => ({
+        id: p.id,
+        currentStock: p.current_stock,
+        unitCost: p.cost_price || p.unit_price,
+        policy: productInventoryPolicy(p),
+        gapFill: p.gap_fill,
+        sales: sales.get(p.id) ?? [],
+      })),
+    };
+
+    const outcomes: BatchForecastOutcome[] = [];
+    const worker = new Worker(new URL('../workers/batchForecast.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    workerRef.current = worker;
+
+    worker.onmessage = async (event: MessageEvent<BatchForecastMessage>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        outcomes.push(message.outcome);
+        setProgress({ completed: message.completed, total: message.total });
+        setRows((current) => [...current, toSummaryRow(message.outcome)]);
+        return;
+      }
+
+      worker.terminate();
+      workerRef.current = null;
+
+      try {
+        await saveForecasts(outcomes);
+      } catch (err) {
+        setError(`Forecasts were generated but could not be saved: ${err instanceof Error ? err.message : ''}`);
+      }
+      setRunning(false);
+    };
+
+    worker.postMessage(request);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'name');
+    }
+  };
+
+  const sortValue = (row: SummaryRow): string | number => {
+    if (sortKey === 'name') return row.name.toLowerCase();
+    if (sortKey === 'riskLevel') return row.riskLevel ? RISK_ORDER[row.riskLevel] : 0;
+    return row[sortKey] ?? -1;
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    const left = sortValue(a);
+    const right = sortValue(b);
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return sortAsc ? order : -order;
+  });
+
+  const columns: { key: SortKey; label: string; align: string }[] = [
+    { key: 'name', label: 'Product', align: 'text-left' },
+    { key: 'demand', label: `Demand (${horizon}d)`, align: 'text-right' },
+    { key: 'recommendedStock', label: 'Recommended Stock', align: 'text-right' },
+    { key: 'riskLevel', label: 'Risk', align: 'text-left' },
+    { key: 'confidence', label: 'Confidence', align: 'text-right' },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg">
+            <Layers className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">All Products</h3>
+            <p className="text-sm text-gray-600">
+              Run model selection for every product and save the forecasts
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={forecastAll}
+          disabled={running || products.length === 0}
+          className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Layers className="w-5 h-5" />
+          {running ? `Forecasting ${progress.completed}/${progress.total}...` : 'Forecast All Products'}
+        </button>
+      </div>
+
+      {running && progress.total > 0 && (
+        <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all"
+            style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+          ></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                {columns.map((column) => (
+                  <th key={column.key} className={`${column.align} py-3 px-4 font-semibold text-gray-700`}>
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.key)}
+                      className={`inline-flex items-center gap-1 hover:text-blue-600 ${
+                        sortKey === column.key ? 'text-blue-600' : ''
+                      }`}
+                    >
+                      {column.label}
+                      <ArrowUpDown className="w-3 h-3" />
+                    </button>
+                  </th>
+                ))}
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Model</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row) => (
+                <tr key={row.productId} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <p className="font-medium text-gray-900">{row.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {row.brand} · {row.currentStock} in stock
+                    </p>
+                  </td>
+                  {row.status !== 'ok' ? (
+                    <td
+                      colSpan={5}
+                      className={`py-3 px-4 ${row.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}
+                    >
+                      {row.status === 'failed' ? 'Failed' : 'Skipped'}: {row.reason}
+                    </td>
+                  ) : (
+                    <>
+                      <td className="py-3 px-4 text-right text-gray-900">{row.demand}</td>
+                      <td className="py-3 px-4 text-right text-gray-900">{row.recommendedStock}</td>
+                      <td className="py-3 px-4">
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            row.riskLevel === 'Low'
+                              ? 'bg-green-100 text-green-800'
+                              : row.riskLevel === 'Medium'
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {row.riskLevel}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-900">
+                        {row.confidence !== null ? `${Math.round(row.confidence)}%` : ''}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">{row.model}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Building2, Wallet, Boxes, AlertTriangle, ArrowRight } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { comparePeriods, shiftDate, KpiSale, PeriodComparison } from '../utils/kpis';
+import { suggestTransfers, BranchProduct, TransferSuggestion } from '../utils/consolidation';
+import { currencySymbol, todayIn } from '../utils/shopSettings';
+
+interface Shop {
+  id: string;
+  name: string;
+  currency: string;
+  timezone: string;
+}
+
+interface ConsolidatedProduct extends BranchProduct {
+  unit_price: number;
+}
+
+interface ShopSummary {
+  shop: Shop;
+  products: number;
+  stockValue: number;
+  period: PeriodComparison;
+  highRisk: number;
+}
+
+interface ConsolidatedReportProps {
+  shops: Shop[];
+}
+
+const PERIOD_DAYS = 30;
+const PAGE_SIZE = 1000;
+
+export default function ConsolidatedReport({ shops }: ConsolidatedReportProps) {
+  const [summaries, setSummaries] = useState<ShopSummary[]>([]);
+  const [transfers, setTransfers] = useState<TransferSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const shopIds = shops.map((shop) => shop.id);
+
+  useEffect(() => {
+    loadReport();
+  }, [shopIds.join(',')]);
+
+  // Supabase caps each response, so every table is read page by page
+  const loadAll = async <T,>(
+    query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+  ): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error: queryError } = await query(from, from + PAGE_SIZE - 1);
+      if (queryError) throw new Error(queryError.message);
+      rows.push(...(data ?? []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  const loadReport = async () => {
+    setLoading(true);
+    setError('');
+    const since = shiftDate(new Date().toISOString().split('T')[0], -(2 * PERIOD_DAYS + 1));
+
+    try {
+      const [products, sales, forecasts] = await Promise.all([
+        loadAll<ConsolidatedProduct>((from, to) =>
+          supabase
+            .from('products')
+            .select('id, shop_id, name, brand, barcode, current_stock, unit_price')
+            .in('shop_id', shopIds)
+            .order('id')
+            .range(from, to)
+        ),
+        loadAll<KpiSale & { shop_id: string }>((from, to) =>
+          supabase
+            .from('sales_data')
+            .select('shop_id, product_id, date, quantity_sold, revenue')
+            .in('shop_id', shopIds)
+            .gte('date', since)
+            .order('id')
+            .range(from, to)
+        ),
+        loadAll<{
+          product_id: string;
+          shop_id: string;
+          recommended_stock: number;
+          reorder_point: number;
+          risk_level: string;
+        }>((from, to) =>
+          supabase
+            .from('latest_product_forecasts')
+            .select('product_id, shop_id, recommended_stock, reorder_point, risk_level')
+            .in('shop_id', shopIds)
+            .order('product_id')
+            .range(from, to)
+        ),
+      ]);
+
+      setSummaries(
+        shops.map((shop) => {
+          const shopProducts = products.filter((product) => product.shop_id === shop.id);
+          return {
+            shop,
+            products: shopProducts.length,
+            stockValue: shopProducts.reduce((sum, p) => sum + p.current_stock * Number(p.unit_price), 0),
+            period: comparePeriods(
+              sales.filter((sale) => sale.shop_id === shop.id),
+              todayIn(shop.timezone),
+              PERIOD_DAYS
+            ),
+            highRisk: forecasts.filter((f) => f.shop_id === shop.id && f.risk_level === 'High').length,
+          };
+        })
+      );
+      setTransfers(
+        suggestTransfers(
+          products,
+          new Map(forecasts.map((forecast) => [forecast.product_id, Number(forecast.recommended_stock)])),
+          new Map(forecasts.map((forecast) => [forecast.product_id, Number(forecast.reorder_point)]))
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the consolidated report');
+    }
+    setLoading(false);
+  };
+
+  const shopName = (id: string) => shops.find((shop) => shop.id === id)?.name ?? 'Unknown shop';
+  // Money is only added up across shops that report in the same currency
+  const sharedCurrency = shops.every((shop) => shop.currency === shops[0]?.currency) ? shops[0]?.currency : null;
+
+  const formatMoney = (value: number, currency: string) =>
+    `${currencySymbol(currency)}${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+  const totals = summaries.reduce(
+    (sum, s) => ({
+      revenue: sum.revenue + s.period.revenue,
+      units: sum.units + s.period.units,
+      stockValue: sum.stockValue + s.stockValue,
+      highRisk: sum.highRisk + s.highRisk,
+    }),
+    { revenue: 0, units: 0, stockValue: 0, highRisk: 0 }
+  );
+
+  const chartData = summaries.map((s) => ({
+    name: s.shop.name,
+    current: s.period.units,
+    previous: s.period.previousUnits,
+  }));
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="bg-blue-100 p-3 rounded-lg">
+            <Building2 className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">All Shops</h2>
+            <p className="text-gray-600">Sales, stock and risk across your {shops.length} shops</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-gradient-to-br from-green-50 to-green-100 p-6 rounded-xl">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="bg-green-600 p-2 rounded-lg">
+                <Wallet className="w-5 h-5 text-white" />
+              </div>
+              <h3 className="font-semibold text-gray-900">Revenue ({PERIOD_DAYS}d)</h3>
+            </div>
+            {sharedCurrency ? (
+              <>
+                <p className="text-3xl font-bold text-green-600">{formatMoney(totals.revenue, sharedCurrency)}</p>
+                <p className="text-sm text-gray-600 mt-1">
+                  Stock value {formatMoney(totals.stockValue, sharedCurrency)}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">Shops use different currencies; see the comparison below</p>
+            )}
+          </div>
+
+          <div className="bg-gradient-to-br from-orange-50 to-orange-100 p-6 rounded-xl">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="bg-orange-600 p-2 rounded-lg">
+                <Boxes className="w-5 h-5 text-white" />
+              </div>
+              <h3 className="font-semibold text-gray-900">Units Sold ({PERIOD_DAYS}d)</h3>
+            </div>
+            <p className="text-3xl font-bold text-orange-600">{totals.units.toLocaleString('en-IN')}</p>
+          </div>
+
+          <div className="bg-gradient-to-br from-red-50 to-red-100 p-6 rounded-xl">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="bg-red-600 p-2 rounded-lg">
+                <AlertTriangle className="w-5 h-5 text-white" />
+              </div>
+              <h3 className="font-semibold text-gray-900">High Risk</h3>
+            </div>
+            <p className="text-3xl font-bold text-red-600">{totals.highRisk}</p>
+            <p className="text-sm text-gray-600 mt-1">Products across all shops</p>
+          </div>
+        </div>
+
+        <h3 className="font-semibold text-gray-900 mb-3">Units Sold by Shop</h3>
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+            <YAxis />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="current" fill="#3B82F6" name={`Last ${PERIOD_DAYS} days`} />
+            <Bar dataKey="previous" fill="#9CA3AF" name={`Prior ${PERIOD_DAYS} days`} />
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="overflow-x-auto mt-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Shop</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Products</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Stock Value</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Revenue ({PERIOD_DAYS}d)</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Change</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Units ({PERIOD_DAYS}d)</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">High Risk</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((s) => (
+                <tr key={s.shop.id} className="border-b border-gray-100">
+                  <td className="py-2 px-3 font-medium text-gray-900">{s.shop.name}</td>
+                  <td className="py-2 px-3 text-right">{s.products}</td>
+                  <td className="py-2 px-3 text-right">{formatMoney(s.stockValue, s.shop.currency)}</td>
+                  <td className="py-2 px-3 text-right">{formatMoney(s.period.revenue, s.shop.currency)}</td>
+                  <td
+                    className={`py-2 px-3 text-right ${
+                      s.period.revenueChange === null
+                        ? 'text-gray-500'
+                        : s.period.revenueChange >= 0
+                          ? 'text-green-700'
+                          : 'text-red-700'
+                    }`}
+                  >
+                    {s.period.revenueChange === null
+                      ? '-'
+                      : `${s.period.revenueChange >= 0 ? '+' : ''}${s.period.revenueChange.toFixed(1)}%`}
+                  </td>
+                  <td className="py-2 px-3 text-right">{s.period.units.toLocaleString('en-IN')}</td>
+                  <td className="py-2 px-3 text-right">{s.highRisk}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-lg font-bold text-gray-900 mb-1">Suggested Transfers</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Products stocked above their forecast in one shop while at or below the reorder point in another.
+          Products are matched by barcode, or by name and brand.
+        </p>
+
+        {transfers.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No transfers suggested. Generate forecasts in each shop to compare stock against demand.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Product</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">From</th>
+                <th className="py-2 px-3"></th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">To</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Quantity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map((transfer) => (
+                <tr key={`${transfer.fromProductId}-${transfer.toProductId}`} className="border-b border-gray-100">
+                  <td className="py-2 px-3">
+                    <p className="font-medium text-gray-900">{transfer.name}</p>
+                    <p className="text-xs text-gray-500">{transfer.brand}</p>
+                  </td>
+                  <td className="py-2 px-3">
+                    <p className="text-gray-900">{shopName(transfer.fromShopId)}</p>
+                    <p className="text-xs text-gray-500">{transfer.fromStock} in stock</p>
+                  </td>
+                  <td className="py-2 px-3 text-gray-400">
+                    <ArrowRight className="w-4 h-4" />
+                  </td>
+                  <td className="py-2 px-3">
+                    <p className="text-gray-900">{shopName(transfer.toShopId)}</p>
+                    <p className="text-xs text-gray-500">{transfer.toStock} in stock</p>
+                  </td>
+                  <td className="py-2 px-3 text-right font-semibold text-gray-900">{transfer.quantity}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,46 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Upload, FileText, CheckCircle, AlertCircle, Download } from 'lucide-react';
+import { Upload, CheckCircle, AlertCircle, Download, Columns, PackagePlus } from 'lucide-react';
+import {
+  parseCSV,
+  guessColumnMapping,
+  applyColumnMapping,
+  productKey,
+  IMPORT_FIELDS,
+  ParsedCSV,
+  ColumnMapping,
+  ImportField,
+  MappedRow,
+} from '../utils/csv';
+import {
+  validateSalesRows,
+  mergeSameDayRows,
+  planSalesUpsert,
+  DuplicateMode,
+  SalesRecord,
+  SalesUpsertPlan,
+} from '../utils/salesImport';
+import { todayIn } from '../utils/shopSettings';
+import ImportPreview from './ImportPreview';
+import ImportHistory from './ImportHistory';
+
+type ImportMode = 'single' | 'multi';
+
+interface ProductSummary {
+  name: string;
+  brand: string;
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+const DUPLICATE_MODES: { id: DuplicateMode; label: string; description: string }[] = [
+  { id: 'skip', label: 'Skip', description: 'Keep existing days untouched' },
+  { id: 'overwrite', label: 'Overwrite', description: 'Replace existing days with the file' },
+  { id: 'sum', label: 'Add', description: 'Add file quantities to existing days' },
+];
+
+const EXISTING_PAGE_SIZE = 1000;
 
 interface Product {
   id: string;
@@ -10,12 +50,21 @@ interface Product {
 
 interface DataUploadProps {
   shopId: string;
+  timezone: string;
 }
 
-export default function DataUpload({ shopId }: DataUploadProps) {
+export default function DataUpload({ shopId, timezone }: DataUploadProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<string>('');
+  const [importMode, setImportMode] = useState<ImportMode>('single');
+  const [creatingProducts, setCreatingProducts] = useState(false);
+  const [productSummary, setProductSummary] = useState<ProductSummary[]>([]);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [file, setFile] = useState<File | null>(null);
+  const [parsed, setParsed] = useState<ParsedCSV | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [savedMapping, setSavedMapping] = useState<ColumnMapping | null>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<{
     type: 'success' | 'error' | null;
@@ -24,6 +73,7 @@ export default function DataUpload({ shopId }: DataUploadProps) {
 
   useEffect(() => {
     loadProducts();
+    loadSavedMapping();
   }, [shopId]);
 
   const loadProducts = async () => {
@@ -38,66 +88,209 @@ export default function DataUpload({ shopId }: DataUploadProps) {
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const loadSavedMapping = async () => {
+    const { data } = await supabase
+      .from('shops')
+      .select('import_mapping')
+      .eq('id', shopId)
+      .single();
+
+    setSavedMapping(data?.import_mapping ?? null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+      const selected = e.target.files[0];
+      setFile(selected);
       setUploadStatus({ type: null, message: '' });
+
+      try {
+        const result = parseCSV(await selected.text());
+        if (result.headers.length === 0) {
+          throw new Error('Empty file');
+        }
+        setParsed(result);
+        setMapping(guessColumnMapping(result.headers, savedMapping));
+      } catch {
+        setParsed(null);
+        setMapping({});
+        setUploadStatus({
+          type: 'error',
+          message: 'Failed to parse CSV file. Please check the format.',
+        });
+      }
     }
   };
 
-  const parseCSV = (text: string): any[] => {
-    const lines = text.trim().split('\n');
-    const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const updateMapping = (field: ImportField, header: string) => {
+    setMapping({ ...mapping, [field]: header || undefined });
+  };
 
-    const data = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',');
-      const row: any = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index]?.trim();
-      });
-      data.push(row);
+  const requiredFields = IMPORT_FIELDS.filter(
+    (f) => f.required || (importMode === 'multi' && f.field === 'product_name')
+  );
+  const missingFields = requiredFields.filter((f) => !mapping[f.field]);
+
+  const productsByKey = new Map(products.map((p) => [productKey(p.name, p.brand), p]));
+  const mappedRows: MappedRow[] = parsed ? applyColumnMapping(parsed, mapping) : [];
+
+  const fileProducts = new Map<string, { name: string; brand: string; quantity: number; revenue: number }>();
+  if (importMode === 'multi') {
+    for (const row of mappedRows) {
+      if (!row.product_name) continue;
+      const key = productKey(row.product_name, row.brand || 'Other');
+      const entry = fileProducts.get(key) ?? {
+        name: row.product_name,
+        brand: row.brand || 'Other',
+        quantity: 0,
+        revenue: 0,
+      };
+      entry.quantity += parseInt(row.quantity_sold ?? '') || 0;
+      entry.revenue += parseFloat(row.revenue ?? '') || 0;
+      fileProducts.set(key, entry);
     }
-    return data;
+  }
+  const missingProducts = [...fileProducts.entries()]
+    .filter(([key]) => !productsByKey.has(key))
+    .map(([, entry]) => entry);
+
+  const resolveProductId = (row: MappedRow): string | null => {
+    if (importMode === 'single') return selectedProduct || null;
+    if (!row.product_name) return null;
+    return productsByKey.get(productKey(row.product_name, row.brand || 'Other'))?.id ?? null;
+  };
+
+  const validation =
+    parsed && missingFields.length === 0
+      ? validateSalesRows(parsed, mapping, resolveProductId, todayIn(timezone))
+      : null;
+
+  const createMissingProducts = async () => {
+    setCreatingProducts(true);
+    const { error } = await supabase.from('products').insert(
+      missingProducts.map((p) => ({
+        shop_id: shopId,
+        name: p.name,
+        brand: p.brand,
+        category: 'Other',
+        unit_price: p.quantity > 0 ? Math.round((p.revenue / p.quantity) * 100) / 100 : 0,
+      }))
+    );
+
+    if (error) {
+      setUploadStatus({ type: 'error', message: `Could not create products: ${error.message}` });
+    } else {
+      await loadProducts();
+    }
+    setCreatingProducts(false);
+  };
+
+  const loadExistingSales = async (records: SalesRecord[]): Promise<SalesRecord[]> => {
+    const productIds = [...new Set(records.map((r) => r.product_id))];
+    const dates = records.map((r) => r.date).sort();
+    const existing: SalesRecord[] = [];
+
+    for (let from = 0; ; from += EXISTING_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('sales_data')
+        .select('product_id, date, quantity_sold, revenue, is_festival, batch_id')
+        .in('product_id', productIds)
+        .gte('date', dates[0])
+        .lte('date', dates[dates.length - 1])
+        .order('date')
+        .range(from, from + EXISTING_PAGE_SIZE - 1);
+
+      if (error) throw new Error(error.message);
+      existing.push(...(data ?? []));
+      if (!data || data.length < EXISTING_PAGE_SIZE) return existing;
+    }
+  };
+
+  // Added rows are summed on the server so concurrent imports and daily entries don't overwrite each other
+  const addSales = async (fileName: string, salesData: SalesRecord[], rejected: number) =>
+    supabase.rpc('add_sales', {
+      p_shop_id: shopId,
+      p_file_name: fileName,
+      p_rows: salesData,
+      p_rejected_rows: rejected,
+    });
+
+  const upsertSales = async (fileName: string, plan: SalesUpsertPlan, rejected: number) => {
+    const { data: batch, error: batchError } = await supabase
+      .from('import_batches')
+      .insert({
+        shop_id: shopId,
+        file_name: fileName,
+        product_ids: [...new Set([...plan.inserts, ...plan.updates, ...plan.skipped].map((r) => r.product_id))],
+        inserted_rows: plan.inserts.length,
+        updated_rows: plan.updates.length,
+        skipped_rows: plan.skipped.length,
+        rejected_rows: rejected,
+        replaced_rows: plan.replaced,
+      })
+      .select('id')
+      .single();
+
+    if (batchError) return { error: batchError };
+
+    const changes = [...plan.inserts, ...plan.updates].map((record) => ({
+      ...record,
+      shop_id: shopId,
+      batch_id: batch.id,
+    }));
+
+    const { error } =
+      changes.length > 0
+        ? await supabase.from('sales_data').upsert(changes, { onConflict: 'product_id,date' })
+        : { error: null };
+
+    if (error) await supabase.from('import_batches').delete().eq('id', batch.id);
+    return { error };
   };
 
   const handleUpload = async () => {
-    if (!file || !selectedProduct) {
+    if (!file || !parsed || !validation || (importMode === 'single' && !selectedProduct)) {
       setUploadStatus({
         type: 'error',
-        message: 'Please select a product and choose a CSV file',
+        message:
+          importMode === 'single'
+            ? 'Please select a product and choose a CSV file'
+            : 'Please choose a CSV file',
+      });
+      return;
+    }
+
+    if (missingFields.length > 0) {
+      setUploadStatus({
+        type: 'error',
+        message: `Please map the ${missingFields.map((f) => f.label).join(' and ')} column`,
       });
       return;
     }
 
     setUploading(true);
     setUploadStatus({ type: null, message: '' });
+    setProductSummary([]);
 
     try {
-      const text = await file.text();
-      const rows = parseCSV(text);
-
-      const salesData = rows
-        .filter((row) => row.date && row['quantity sold'])
-        .map((row) => ({
-          product_id: selectedProduct,
-          shop_id: shopId,
-          date: row.date,
-          quantity_sold: parseInt(row['quantity sold']) || 0,
-          revenue: parseFloat(row.revenue || '0'),
-          is_festival: row['festival indicator']?.toLowerCase() === 'yes' || row.is_festival === '1',
-        }));
+      const rejected = validation.rejected.length;
+      const salesData = mergeSameDayRows(validation.valid);
 
       if (salesData.length === 0) {
         setUploadStatus({
           type: 'error',
-          message: 'No valid data found. Please check CSV format.',
+          message: 'No valid rows found. Download the rejected rows to see what needs fixing.',
         });
         setUploading(false);
         return;
       }
 
-      const { error } = await supabase.from('sales_data').insert(salesData);
+      const plan = planSalesUpsert(salesData, await loadExistingSales(salesData), duplicateMode);
+
+      const { error } =
+        duplicateMode === 'sum'
+          ? await addSales(file.name, salesData, rejected)
+          : await upsertSales(file.name, plan, rejected);
 
       if (error) {
         setUploadStatus({
@@ -105,18 +298,42 @@ export default function DataUpload({ shopId }: DataUploadProps) {
           message: `Upload failed: ${error.message}`,
         });
       } else {
+        await supabase.from('shops').update({ import_mapping: mapping }).eq('id', shopId);
+        setSavedMapping(mapping);
+        const summary = new Map<string, { inserted: number; updated: number; skipped: number }>();
+        const tally = (records: SalesRecord[], outcome: 'inserted' | 'updated' | 'skipped') => {
+          for (const record of records) {
+            const entry = summary.get(record.product_id) ?? { inserted: 0, updated: 0, skipped: 0 };
+            entry[outcome]++;
+            summary.set(record.product_id, entry);
+          }
+        };
+        tally(plan.inserts, 'inserted');
+        tally(plan.updates, 'updated');
+        tally(plan.skipped, 'skipped');
+        setProductSummary(
+          products
+            .filter((p) => summary.has(p.id))
+            .map((p) => ({ name: p.name, brand: p.brand, ...summary.get(p.id)! }))
+        );
         setUploadStatus({
           type: 'success',
-          message: `Successfully uploaded ${salesData.length} records!`,
+          message: `Import finished for ${summary.size} product${summary.size === 1 ? '' : 's'}: ${
+            plan.inserts.length
+          } days added, ${plan.updates.length} updated, ${plan.skipped.length} skipped as duplicates.${
+            rejected > 0 ? ` ${rejected} rejected rows were not imported.` : ''
+          }`,
         });
+        setHistoryVersion((v) => v + 1);
         setFile(null);
+        setParsed(null);
         const fileInput = document.getElementById('file-upload') as HTMLInputElement;
         if (fileInput) fileInput.value = '';
       }
-    } catch (error) {
+    } catch (err) {
       setUploadStatus({
         type: 'error',
-        message: 'Failed to parse CSV file. Please check the format.',
+        message: err instanceof Error ? `Upload failed: ${err.message}` : 'Upload failed',
       });
     }
 
@@ -157,112 +374,281 @@ export default function DataUpload({ shopId }: DataUploadProps) {
           </button>
         </div>
 
-        {products.length === 0 ? (
-          <div className="text-center py-12 bg-gray-50 rounded-lg">
-            <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Products Found</h3>
-            <p className="text-gray-600">Please add products before uploading sales data</p>
+        <div className="space-y-6">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <h4 className="font-semibold text-blue-900 mb-2">CSV Format Requirements</h4>
+            <ul className="text-sm text-blue-800 space-y-1">
+              <li>• <strong>Date</strong>: YYYY-MM-DD or DD/MM/YYYY format (e.g., 2024-01-15), not in the future</li>
+              <li>• <strong>Product Name / Brand</strong>: Product identifier</li>
+              <li>• <strong>Quantity Sold</strong>: Whole number of units sold, zero or more</li>
+              <li>• <strong>Revenue</strong>: (Optional) Total revenue</li>
+              <li>• <strong>Festival Indicator</strong>: (Optional) Yes/No or 1/0</li>
+              <li>• Comma, semicolon or tab separated; quoted values and any header names are supported</li>
+            </ul>
           </div>
-        ) : (
-          <div className="space-y-6">
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <h4 className="font-semibold text-blue-900 mb-2">CSV Format Requirements</h4>
-              <ul className="text-sm text-blue-800 space-y-1">
-                <li>• <strong>Date</strong>: YYYY-MM-DD format (e.g., 2024-01-15)</li>
-                <li>• <strong>Product Name / Brand</strong>: Product identifier</li>
-                <li>• <strong>Quantity Sold</strong>: Number of units sold</li>
-                <li>• <strong>Revenue</strong>: (Optional) Total revenue</li>
-                <li>• <strong>Festival Indicator</strong>: (Optional) Yes/No or 1/0</li>
-              </ul>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Import Mode</label>
+            <div className="grid grid-cols-2 gap-2 bg-gray-100 p-1 rounded-lg">
+              {(
+                [
+                  { id: 'single', label: 'One product' },
+                  { id: 'multi', label: 'All products in file' },
+                ] as const
+              ).map((mode) => (
+                <button
+                  key={mode.id}
+                  type="button"
+                  onClick={() => setImportMode(mode.id)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                    importMode === mode.id
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
             </div>
+          </div>
 
+          {importMode === 'single' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Select Product</label>
-              <select
-                value={selectedProduct}
-                onChange={(e) => setSelectedProduct(e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="">Choose a product...</option>
-                {products.map((product) => (
-                  <option key={product.id} value={product.id}>
-                    {product.name} ({product.brand})
-                  </option>
+              {products.length === 0 ? (
+                <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
+                  No products yet. Add products first, or switch to "All products in file" to
+                  create them from your CSV.
+                </p>
+              ) : (
+                <select
+                  value={selectedProduct}
+                  onChange={(e) => setSelectedProduct(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Choose a product...</option>
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name} ({product.brand})
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Upload CSV File</label>
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-500 transition">
+              <input
+                id="file-upload"
+                type="file"
+                accept=".csv,.txt,text/csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <label htmlFor="file-upload" className="cursor-pointer">
+                <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                {file ? (
+                  <div>
+                    <p className="text-gray-900 font-medium mb-1">{file.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {(file.size / 1024).toFixed(2)} KB
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-gray-900 font-medium mb-1">
+                      Click to upload or drag and drop
+                    </p>
+                    <p className="text-sm text-gray-600">CSV files only</p>
+                  </div>
+                )}
+              </label>
+            </div>
+          </div>
+
+          {parsed && (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-1">
+                <Columns className="w-5 h-5 text-blue-600" />
+                <h4 className="font-semibold text-gray-900">Map Your Columns</h4>
+              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                {parsed.rows.length} rows detected,{' '}
+                {parsed.delimiter === '\t' ? 'tab' : `"${parsed.delimiter}"`} separated. Your
+                mapping is remembered for this shop.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label} {required ? <span className="text-red-600">*</span> : '(Optional)'}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => updateMapping(field, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Not in file</option>
+                      {parsed.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 ))}
-              </select>
+              </div>
             </div>
+          )}
 
+          {parsed && importMode === 'multi' && mapping.product_name && (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <h4 className="font-semibold text-gray-900 mb-1">Product Matching</h4>
+              <p className="text-sm text-gray-600 mb-3">
+                {fileProducts.size} products in file: {fileProducts.size - missingProducts.length}{' '}
+                matched by name and brand, {missingProducts.length} not found
+              </p>
+              {missingProducts.length > 0 && (
+                <>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {missingProducts.map((p) => (
+                      <span
+                        key={productKey(p.name, p.brand)}
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                      >
+                        {p.name} ({p.brand})
+                      </span>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={createMissingProducts}
+                    disabled={creatingProducts}
+                    className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition text-sm font-medium disabled:opacity-50"
+                  >
+                    <PackagePlus className="w-4 h-4" />
+                    {creatingProducts
+                      ? 'Creating...'
+                      : `Create ${missingProducts.length} missing product${
+                          missingProducts.length === 1 ? '' : 's'
+                        }`}
+                  </button>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Rows for products that are not created will be skipped.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {parsed && (
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Upload CSV File</label>
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-500 transition">
-                <input
-                  id="file-upload"
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileChange}
-                  className="hidden"
-                />
-                <label htmlFor="file-upload" className="cursor-pointer">
-                  <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  {file ? (
-                    <div>
-                      <p className="text-gray-900 font-medium mb-1">{file.name}</p>
-                      <p className="text-sm text-gray-600">
-                        {(file.size / 1024).toFixed(2)} KB
-                      </p>
-                    </div>
-                  ) : (
-                    <div>
-                      <p className="text-gray-900 font-medium mb-1">
-                        Click to upload or drag and drop
-                      </p>
-                      <p className="text-sm text-gray-600">CSV files only</p>
-                    </div>
-                  )}
-                </label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Days Already Uploaded
+              </label>
+              <div className="grid grid-cols-3 gap-2 bg-gray-100 p-1 rounded-lg">
+                {DUPLICATE_MODES.map((mode) => (
+                  <button
+                    key={mode.id}
+                    type="button"
+                    onClick={() => setDuplicateMode(mode.id)}
+                    className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                      duplicateMode === mode.id
+                        ? 'bg-white text-blue-600 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
               </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {DUPLICATE_MODES.find((m) => m.id === duplicateMode)?.description}. Rows for the
+                same product and day within the file are added together.
+              </p>
             </div>
+          )}
 
-            {uploadStatus.type && (
-              <div
-                className={`flex items-start gap-3 p-4 rounded-lg ${
-                  uploadStatus.type === 'success'
-                    ? 'bg-green-50 border border-green-200'
-                    : 'bg-red-50 border border-red-200'
+          {parsed && file && validation && (
+            <ImportPreview parsed={parsed} validation={validation} fileName={file.name} />
+          )}
+
+          {uploadStatus.type && (
+            <div
+              className={`flex items-start gap-3 p-4 rounded-lg ${
+                uploadStatus.type === 'success'
+                  ? 'bg-green-50 border border-green-200'
+                  : 'bg-red-50 border border-red-200'
+              }`}
+            >
+              {uploadStatus.type === 'success' ? (
+                <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              ) : (
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              )}
+              <p
+                className={`text-sm ${
+                  uploadStatus.type === 'success' ? 'text-green-800' : 'text-red-800'
                 }`}
               >
-                {uploadStatus.type === 'success' ? (
-                  <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
-                ) : (
-                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
-                )}
-                <p
-                  className={`text-sm ${
-                    uploadStatus.type === 'success' ? 'text-green-800' : 'text-red-800'
-                  }`}
-                >
-                  {uploadStatus.message}
-                </p>
-              </div>
-            )}
+                {uploadStatus.message}
+              </p>
+            </div>
+          )}
 
-            <button
-              onClick={handleUpload}
-              disabled={!file || !selectedProduct || uploading}
-              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Upload className="w-5 h-5" />
-              {uploading ? 'Uploading...' : 'Upload Data'}
-            </button>
-          </div>
-        )}
+          {productSummary.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700">Product</th>
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700">Brand</th>
+                    <th className="text-right py-2 px-3 font-semibold text-gray-700">Added</th>
+                    <th className="text-right py-2 px-3 font-semibold text-gray-700">Updated</th>
+                    <th className="text-right py-2 px-3 font-semibold text-gray-700">Skipped</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {productSummary.map((p) => (
+                    <tr key={productKey(p.name, p.brand)} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-gray-900">{p.name}</td>
+                      <td className="py-2 px-3 text-gray-600">{p.brand}</td>
+                      <td className="py-2 px-3 text-right text-gray-900">{p.inserted}</td>
+                      <td className="py-2 px-3 text-right text-gray-900">{p.updated}</td>
+                      <td className="py-2 px-3 text-right text-gray-500">{p.skipped}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <button
+            onClick={handleUpload}
+            disabled={
+              !file ||
+              !parsed ||
+              (importMode === 'single' && !selectedProduct) ||
+              missingFields.length > 0 ||
+              uploading
+            }
+            className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-5 h-5" />
+            {uploading ? 'Uploading...' : 'Upload Data'}
+          </button>
+        </div>
       </div>
 
+      <ImportHistory key={historyVersion} shopId={shopId} />
+
       <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-xl shadow-sm p-6 border border-green-200">
         <h3 className="text-lg font-bold text-gray-900 mb-3">Next Steps After Upload</h3>
         <div className="space-y-2 text-sm text-gray-700">
-          <p>✓ Data will be automatically preprocessed and validated</p>
-          <p>✓ Missing dates and outliers will be handled intelligently</p>
+          <p>✓ Rows are validated before import, and bad rows can be downloaded and fixed</p>
+          <p>✓ Missing days are filled per product, and unusual days are flagged for your review</p>
           <p>✓ Navigate to AI Forecast tab to generate demand predictions</p>
           <p>✓ Get inventory recommendations and business insights</p>
         </div>
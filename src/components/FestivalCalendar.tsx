@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Plus, Edit, Trash2, X, CalendarDays } from 'lucide-react';
+
+interface FestivalEntry {
+  id: string;
+  name: string;
+  date: string;
+}
+
+interface FestivalCalendarProps {
+  shopId: string;
+}
+
+export default function FestivalCalendar({ shopId }: FestivalCalendarProps) {
+  const [entries, setEntries] = useState<FestivalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<FestivalEntry | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({ name: 'Diwali', date: '' });
+
+  const festivalNames = [
+    'Diwali',
+    'Pongal',
+    'Sankranti',
+    'Holi',
+    'Ganesh Chaturthi',
+    'Navratri',
+    'Eid',
+    'Christmas',
+    'School Reopening',
+    'Exam Season',
+    'Independence Day',
+  ];
+
+  const today = new Date().toISOString().split('T')[0];
+
+  useEffect(() => {
+    loadEntries();
+  }, [shopId]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('festival_calendar')
+      .select('id, name, date')
+      .eq('shop_id', shopId)
+      .order('date', { ascending: true });
+
+    if (!error && data) {
+      setEntries(data);
+    }
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const { error: saveError } = editingEntry
+      ? await supabase
+          .from('festival_calendar')
+          .update({ name: formData.name, date: formData.date })
+          .eq('id', editingEntry.id)
+      : await supabase.from('festival_calendar').insert({
+          shop_id: shopId,
+          name: formData.name,
+          date: formData.date,
+        });
+
+    if (saveError) {
+      setError(saveError.message);
+    } else {
+      loadEntries();
+      closeModal();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Remove this event from the calendar?')) {
+      await supabase.from('festival_calendar').delete().eq('id', id);
+      loadEntries();
+    }
+  };
+
+  const openModal = (entry?: FestivalEntry) => {
+    setError('');
+    if (entry) {
+      setEditingEntry(entry);
+      setFormData({ name: entry.name, date: entry.date });
+    } else {
+      setEditingEntry(null);
+      setFormData({ name: 'Diwali', date: today });
+    }
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingEntry(null);
+  };
+
+  const visibleEntries = showPast ? entries : entries.filter((entry) => entry.date >= today);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Festival Calendar</h2>
+            <p className="text-gray-600">
+              Upcoming festivals and events boost forecasts by your learned festival uplift
+            </p>
+          </div>
+          <button
+            onClick={() => openModal()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+          >
+            <Plus className="w-5 h-5" />
+            Add Event
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+          <input
+            type="checkbox"
+            checked={showPast}
+            onChange={(e) => setShowPast(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show past events
+        </label>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDays className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No upcoming events</h3>
+            <p className="text-gray-600">
+              Add Diwali, Pongal, school reopening and other busy days for your shop
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Date</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Event</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map((entry) => (
+                  <tr
+                    key={entry.id}
+                    className={`border-b border-gray-100 hover:bg-gray-50 ${
+                      entry.date < today ? 'text-gray-400' : ''
+                    }`}
+                  >
+                    <td className="py-3 px-4">
+                      {new Date(entry.date).toLocaleDateString('en-IN', {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                        year: 'numeric',
+                      })}
+                    </td>
+                    <td className="py-3 px-4 font-medium text-gray-900">{entry.name}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => openModal(entry)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded transition"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry.id)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingEntry ? 'Edit Event' : 'Add Event'}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600 transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Event Name</label>
+                <input
+                  type="text"
+                  list="festival-names"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+                <datalist id="festival-names">
+                  {festivalNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+                <input
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+                >
+                  {editingEntry ? 'Update Event' : 'Add Event'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
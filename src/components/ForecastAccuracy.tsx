@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Target, AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { GapFillMethod } from '../utils/preprocessing';
+import {
+  evaluateForecastRuns,
+  accuracyByModel,
+  ActualSales,
+  ForecastHistoryRow,
+} from '../utils/accuracy';
+
+interface ForecastAccuracyProps {
+  productId: string;
+  gapFill: GapFillMethod;
+}
+
+const PAGE_SIZE = 1000;
+const RECENT_RUNS = 3;
+const DRIFT_TOLERANCE = 15;
+
+export default function ForecastAccuracy({ productId, gapFill }: ForecastAccuracyProps) {
+  const [rows, setRows] = useState<ForecastHistoryRow[]>([]);
+  const [actuals, setActuals] = useState<ActualSales>({ byDate: new Map(), lastDate: null, missingAsZero: true });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [productId, gapFill]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    const history: ForecastHistoryRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data } = await supabase
+        .from('forecasts')
+        .select('run_id, model_used, forecast_date, predicted_demand, confidence_score, created_at')
+        .eq('product_id', productId)
+        .order('created_at')
+        .order('forecast_date')
+        .range(from, from + PAGE_SIZE - 1);
+
+      history.push(...(data ?? []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const byDate = new Map<string, number>();
+    let lastDate: string | null = null;
+    if (history.length > 0) {
+      const dates = history.map((row) => row.forecast_date).sort();
+
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data } = await supabase
+          .from('sales_data')
+          .select('date, quantity_sold')
+          .eq('product_id', productId)
+          .gte('date', dates[0])
+          .order('date')
+          .range(from, from + PAGE_SIZE - 1);
+
+        for (const sale of data ?? []) {
+          byDate.set(sale.date, sale.quantity_sold);
+          lastDate = sale.date;
+        }
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+
+    setRows(history);
+    setActuals({ byDate, lastDate, missingAsZero: gapFill === 'zero' });
+    setLoading(false);
+  };
+
+  const runs = evaluateForecastRuns(rows, actuals).filter((run) => run.accuracy !== null);
+  const models = accuracyByModel(rows, actuals);
+  const recent = runs.slice(-RECENT_RUNS);
+  const drift =
+    recent.length > 0
+      ? recent.reduce((sum, run) => sum + run.expectedAccuracy - (run.accuracy ?? 0), 0) / recent.length
+      : null;
+
+  const chartData = runs.map((run) => ({
+    date: run.createdAt,
+    realised: Math.round(run.accuracy ?? 0),
+    expected: Math.round(run.expectedAccuracy),
+  }));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Target className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-bold text-gray-900">Forecast Accuracy History</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Past forecasts for this product compared with the sales that were actually recorded
+      </p>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          {rows.length === 0
+            ? 'No saved forecasts yet'
+            : 'Saved forecasts have no recorded sales to compare against yet'}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {drift !== null && (
+            <div
+              className={`flex items-start gap-3 p-4 rounded-lg ${
+                drift > DRIFT_TOLERANCE
+                  ? 'bg-yellow-50 border border-yellow-200 text-yellow-900'
+                  : 'bg-green-50 border border-green-200 text-green-900'
+              }`}
+            >
+              {drift > DRIFT_TOLERANCE ? (
+                <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              ) : (
+                <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              )}
+              <p className="text-sm">
+                {drift > DRIFT_TOLERANCE
+                  ? `The last ${recent.length} forecasts were ${Math.round(
+                      drift
+                    )} points less accurate than their confidence suggested. Treat current forecasts with caution and regenerate once recent sales are uploaded.`
+                  : `The last ${recent.length} forecasts performed in line with their confidence.`}
+              </p>
+            </div>
+          )}
+
+          {chartData.length > 1 && (
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(value) =>
+                    new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                  }
+                />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip
+                  labelFormatter={(value) => new Date(value).toLocaleString()}
+                  formatter={(value) => `${value}%`}
+                />
+                <Legend />
+                <Line type="monotone" dataKey="realised" stroke="#3B82F6" strokeWidth={2} name="Realised accuracy" />
+                <Line
+                  type="monotone"
+                  dataKey="expected"
+                  stroke="#9CA3AF"
+                  strokeDasharray="5 5"
+                  name="Expected (confidence)"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-3 font-semibold text-gray-700">Model</th>
+                  <th className="text-right py-2 px-3 font-semibold text-gray-700">Runs</th>
+                  <th className="text-right py-2 px-3 font-semibold text-gray-700">Days Compared</th>
+                  <th className="text-right py-2 px-3 font-semibold text-gray-700">MAE</th>
+                  <th className="text-right py-2 px-3 font-semibold text-gray-700">MAPE</th>
+                  <th className="text-right py-2 px-3 font-semibold text-gray-700">Accuracy</th>
+                </tr>
+              </thead>
+              <tbody>
+                {models.map((model) => (
+                  <tr key={model.model} className="border-b border-gray-100">
+                    <td className="py-2 px-3 font-medium text-gray-900">{model.model}</td>
+                    <td className="py-2 px-3 text-right">{model.runs}</td>
+                    <td className="py-2 px-3 text-right">{model.evaluatedDays}</td>
+                    <td className="py-2 px-3 text-right">{model.metrics.mae.toFixed(2)}</td>
+                    <td className="py-2 px-3 text-right">{model.metrics.mape.toFixed(1)}%</td>
+                    <td className="py-2 px-3 text-right font-medium">{model.accuracy.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,7 +12,8 @@ import {
   Zap,
 } from 'lucide-react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   BarChart,
   Bar,
@@ -24,16 +25,30 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import {
-  selectBestModel,
+  compareModels,
   calculateInventoryRecommendation,
   generateInsights,
   calculateBusinessImpact,
+  DEFAULT_INTERVAL_LEVELS,
   SalesDataPoint,
+  FestivalEvent,
   ForecastResult,
+  ModelSelection,
   InventoryRecommendation,
   Insight,
   BusinessImpact,
 } from '../utils/forecasting';
+import { productInventoryPolicy } from '../utils/inventory';
+import {
+  preprocessSales,
+  applyOutlierCorrections,
+  GapFillMethod,
+  OutlierMethod,
+} from '../utils/preprocessing';
+import { toForecastRows } from '../utils/batchForecast';
+import { currencySymbol, todayIn, HORIZON_OPTIONS } from '../utils/shopSettings';
+import BatchForecastPanel from './BatchForecastPanel';
+import ForecastAccuracy from './ForecastAccuracy';
 
 interface Product {
   id: string;
@@ -41,22 +56,46 @@ interface Product {
   brand: string;
   current_stock: number;
   unit_price: number;
+  lead_time_days: number;
+  service_level: number;
+  gap_fill: GapFillMethod;
+  case_pack_size: number;
+  minimum_order_quantity: number;
+  cost_price: number;
+  suppliers: { lead_time_days: number } | null;
+}
+
+interface ChartPoint {
+  date: string;
+  actual: number | null;
+  forecast: number | null;
+  ranges: Record<number, [number, number]>;
 }
 
 interface ForecastDashboardProps {
   shopId: string;
+  defaultHorizon: number;
+  currency: string;
+  timezone: string;
 }
 
-export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
+export default function ForecastDashboard({ shopId, defaultHorizon, currency, timezone }: ForecastDashboardProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [salesData, setSalesData] = useState<SalesDataPoint[]>([]);
+  const [festivals, setFestivals] = useState<FestivalEvent[]>([]);
   const [forecast, setForecast] = useState<ForecastResult | null>(null);
+  const [candidates, setCandidates] = useState<ModelSelection['candidates']>([]);
   const [recommendation, setRecommendation] = useState<InventoryRecommendation | null>(null);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [businessImpact, setBusinessImpact] = useState<BusinessImpact | null>(null);
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
+  const [horizon, setHorizon] = useState(defaultHorizon);
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('iqr');
+  const [acceptedOutliers, setAcceptedOutliers] = useState<Set<string>>(new Set());
+
+  const currencySign = currencySymbol(currency);
 
   const [whatIfStock, setWhatIfStock] = useState(0);
   const [whatIfDiscount, setWhatIfDiscount] = useState(0);
@@ -64,8 +103,13 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
 
   useEffect(() => {
     loadProducts();
+    loadFestivals();
   }, [shopId]);
 
+  useEffect(() => {
+    setHorizon(defaultHorizon);
+  }, [shopId, defaultHorizon]);
+
   useEffect(() => {
     if (selectedProduct) {
       loadSalesData(selectedProduct.id);
@@ -77,7 +121,7 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
     setLoading(true);
     const { data } = await supabase
       .from('products')
-      .select('*')
+      .select('*, suppliers(lead_time_days)')
       .eq('shop_id', shopId)
       .order('name');
 
@@ -88,6 +132,16 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
     setLoading(false);
   };
 
+  const loadFestivals = async () => {
+    const { data } = await supabase
+      .from('festival_calendar')
+      .select('date, name')
+      .eq('shop_id', shopId)
+      .gte('date', todayIn(timezone));
+
+    setFestivals(data || []);
+  };
+
   const loadSalesData = async (productId: string) => {
     const { data } = await supabase
       .from('sales_data')
@@ -97,13 +151,35 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
 
     if (data) {
       setSalesData(data);
+      setAcceptedOutliers(new Set());
       setForecast(null);
+      setCandidates([]);
       setRecommendation(null);
       setInsights([]);
       setBusinessImpact(null);
     }
   };
 
+  const preprocessed = preprocessSales(salesData, {
+    gapFill: selectedProduct?.gap_fill ?? 'zero',
+    outlierMethod,
+  });
+  const modelInput = applyOutlierCorrections(
+    preprocessed.series,
+    preprocessed.outliers,
+    acceptedOutliers
+  );
+
+  const toggleOutlier = (date: string) => {
+    const next = new Set(acceptedOutliers);
+    if (next.has(date)) {
+      next.delete(date);
+    } else {
+      next.add(date);
+    }
+    setAcceptedOutliers(next);
+  };
+
   const generateForecast = async () => {
     if (!selectedProduct || salesData.length < 7) {
       alert('Need at least 7 days of sales data to generate forecast');
@@ -112,14 +188,15 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
 
     setGenerating(true);
 
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    const bestForecast = selectBestModel(salesData);
+    const selection = compareModels(modelInput, horizon, festivals, todayIn(timezone));
+    const bestForecast = selection.best;
     const inventoryRec = calculateInventoryRecommendation(
       bestForecast,
-      selectedProduct.current_stock
+      selectedProduct.current_stock,
+      selectedProduct.cost_price || selectedProduct.unit_price,
+      productInventoryPolicy(selectedProduct)
     );
-    const aiInsights = generateInsights(salesData, bestForecast);
+    const aiInsights = generateInsights(modelInput, bestForecast);
     const impact = calculateBusinessImpact(
       selectedProduct.current_stock,
       inventoryRec.recommendedStock,
@@ -128,42 +205,31 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
     );
 
     setForecast(bestForecast);
+    setCandidates(selection.candidates);
     setRecommendation(inventoryRec);
     setInsights(aiInsights);
     setBusinessImpact(impact);
 
-    await supabase.from('forecasts').insert({
-      product_id: selectedProduct.id,
-      shop_id: shopId,
-      forecast_date: bestForecast.predictions[bestForecast.predictions.length - 1].date,
-      predicted_demand: inventoryRec.forecastedDemand,
-      recommended_stock: inventoryRec.recommendedStock,
-      safety_stock: inventoryRec.safetyStock,
-      risk_level: inventoryRec.riskLevel,
-      model_used: bestForecast.model,
-      confidence_score: bestForecast.confidence,
-    });
+    await supabase
+      .from('forecasts')
+      .insert(toForecastRows(shopId, selectedProduct.id, bestForecast, inventoryRec));
 
     setGenerating(false);
   };
 
   const runWhatIfSimulation = () => {
-    if (!recommendation || !selectedProduct) return;
+    if (!forecast || !recommendation || !selectedProduct) return;
 
-    const adjustedDemand =
-      recommendation.forecastedDemand * (1 + whatIfDiscount / 100 * 0.5);
-    const adjustedRecommendedStock = Math.round(
-      adjustedDemand + recommendation.safetyStock
+    // The adjusted forecast goes through the same reorder point and safety stock policy as the recommendation
+    const demandFactor = 1 + (whatIfDiscount / 100) * 0.5;
+    const whatIf = calculateInventoryRecommendation(
+      { ...forecast, predictions: forecast.predictions.map((p) => ({ ...p, value: p.value * demandFactor })) },
+      whatIfStock,
+      selectedProduct.cost_price || selectedProduct.unit_price,
+      productInventoryPolicy(selectedProduct)
     );
-
-    let newRiskLevel: 'Low' | 'Medium' | 'High';
-    if (whatIfStock >= adjustedRecommendedStock * 1.5) {
-      newRiskLevel = 'Medium';
-    } else if (whatIfStock < adjustedDemand * 0.8) {
-      newRiskLevel = 'High';
-    } else {
-      newRiskLevel = 'Low';
-    }
+    const adjustedDemand = whatIf.forecastedDemand;
+    const adjustedRecommendedStock = Math.round(whatIf.recommendedStock);
 
     const impact = calculateBusinessImpact(
       whatIfStock,
@@ -175,7 +241,7 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
     setWhatIfResults({
       adjustedDemand: Math.round(adjustedDemand),
       adjustedRecommendedStock,
-      riskLevel: newRiskLevel,
+      riskLevel: whatIf.riskLevel,
       impact,
     });
   };
@@ -205,25 +271,35 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
     );
   }
 
-  const chartData =
-    forecast && salesData.length > 0
+  const history: ChartPoint[] = modelInput.slice(-30).map((d) => ({
+    date: d.date,
+    actual: d.quantity_sold,
+    forecast: null,
+    ranges: {},
+  }));
+
+  const lastActual = history.length > 0 ? history[history.length - 1] : null;
+  const chartData: ChartPoint[] =
+    forecast && lastActual
       ? [
-          ...salesData.slice(-30).map((d) => ({
-            date: d.date,
-            actual: d.quantity_sold,
-            forecast: null,
-          })),
-          ...forecast.predictions.slice(-7).map((p) => ({
+          ...history.slice(0, -1),
+          {
+            ...lastActual,
+            forecast: lastActual.actual,
+            ranges: Object.fromEntries(
+              DEFAULT_INTERVAL_LEVELS.map((level) => [level, [lastActual.actual ?? 0, lastActual.actual ?? 0]])
+            ),
+          },
+          ...forecast.predictions.map((p) => ({
             date: p.date,
             actual: null,
             forecast: p.value,
+            ranges: Object.fromEntries(
+              p.intervals.map((interval) => [interval.level, [interval.lower, interval.upper] as [number, number]])
+            ),
           })),
         ]
-      : salesData.slice(-30).map((d) => ({
-          date: d.date,
-          actual: d.quantity_sold,
-          forecast: null,
-        }));
+      : history;
 
   return (
     <div className="space-y-6">
@@ -234,6 +310,17 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
             <p className="text-gray-600">Generate predictions and inventory recommendations</p>
           </div>
           <div className="flex items-center gap-4">
+            <select
+              value={horizon}
+              onChange={(e) => setHorizon(parseInt(e.target.value))}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {HORIZON_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  Next {days} days
+                </option>
+              ))}
+            </select>
             <select
               value={selectedProduct?.id || ''}
               onChange={(e) => {
@@ -282,8 +369,107 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
             </div>
           </div>
         )}
+
+        {salesData.length >= 7 && (
+          <div className="mt-4 border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h4 className="font-semibold text-gray-900">Data Preparation</h4>
+                <p className="text-sm text-gray-600">
+                  {preprocessed.filledDates.length === 0
+                    ? 'No missing days in the sales history'
+                    : `${preprocessed.filledDates.length} missing days ${
+                        selectedProduct?.gap_fill === 'interpolate'
+                          ? 'interpolated from neighbouring days'
+                          : 'filled as zero sales'
+                      } (change per product in Products)`}
+                </p>
+              </div>
+              <select
+                value={outlierMethod}
+                onChange={(e) => {
+                  setOutlierMethod(e.target.value as OutlierMethod);
+                  setAcceptedOutliers(new Set());
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="iqr">Outliers: IQR fences</option>
+                <option value="mad">Outliers: median absolute deviation</option>
+              </select>
+            </div>
+
+            {preprocessed.outliers.length === 0 ? (
+              <p className="text-sm text-gray-600">No outliers detected</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm text-gray-600">
+                    {preprocessed.outliers.length} unusual days found. Accepted corrections are used
+                    for forecasting; your uploaded data is not changed.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setAcceptedOutliers(
+                        acceptedOutliers.size === preprocessed.outliers.length
+                          ? new Set()
+                          : new Set(preprocessed.outliers.map((o) => o.date))
+                      )
+                    }
+                    className="text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
+                  >
+                    {acceptedOutliers.size === preprocessed.outliers.length ? 'Clear all' : 'Accept all'}
+                  </button>
+                </div>
+                <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 px-3 font-semibold text-gray-700">Accept</th>
+                        <th className="text-left py-2 px-3 font-semibold text-gray-700">Date</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-700">Sold</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-700">Corrected</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preprocessed.outliers.map((outlier) => (
+                        <tr key={outlier.date} className="border-b border-gray-100">
+                          <td className="py-2 px-3">
+                            <input
+                              type="checkbox"
+                              checked={acceptedOutliers.has(outlier.date)}
+                              onChange={() => toggleOutlier(outlier.date)}
+                              className="rounded border-gray-300"
+                            />
+                          </td>
+                          <td className="py-2 px-3 text-gray-900">{outlier.date}</td>
+                          <td
+                            className={`py-2 px-3 text-right font-medium ${
+                              outlier.direction === 'high' ? 'text-red-600' : 'text-orange-600'
+                            }`}
+                          >
+                            {outlier.value}
+                          </td>
+                          <td className="py-2 px-3 text-right text-gray-900">{outlier.replacement}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
+      <BatchForecastPanel
+        shopId={shopId}
+        products={products}
+        horizon={horizon}
+        festivals={festivals}
+        today={todayIn(timezone)}
+      />
+
       {forecast && recommendation && (
         <>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -297,7 +483,7 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                   <p className="text-2xl font-bold text-gray-900">
                     {recommendation.forecastedDemand}
                   </p>
-                  <p className="text-xs text-gray-500">units (next period)</p>
+                  <p className="text-xs text-gray-500">units (next {forecast.horizon} days)</p>
                 </div>
               </div>
             </div>
@@ -313,7 +499,7 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                     {recommendation.recommendedStock}
                   </p>
                   <p className="text-xs text-gray-500">
-                    Safety: +{recommendation.safetyStock}
+                    Safety: +{recommendation.safetyStock} · Reorder at {recommendation.reorderPoint}
                   </p>
                 </div>
               </div>
@@ -358,10 +544,49 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
             </div>
           </div>
 
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h3 className="text-lg font-bold text-gray-900 mb-1">Inventory Policy</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {recommendation.serviceLevel}% service level with a {recommendation.leadTimeDays}-day
+              supplier lead time
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-1">Order Now</p>
+                <p className="text-2xl font-bold text-gray-900">{recommendation.orderQuantity}</p>
+                <p className="text-xs text-gray-500">
+                  {selectedProduct && selectedProduct.case_pack_size > 1
+                    ? `${recommendation.orderQuantity / selectedProduct.case_pack_size} cases of ${selectedProduct.case_pack_size}`
+                    : 'Units to reach recommended stock'}
+                  {selectedProduct && selectedProduct.minimum_order_quantity > 1
+                    ? ` · MOQ ${selectedProduct.minimum_order_quantity}`
+                    : ''}
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-1">Safety Stock</p>
+                <p className="text-2xl font-bold text-gray-900">{recommendation.safetyStock}</p>
+                <p className="text-xs text-gray-500">z · σ · √lead time</p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-1">Reorder Point</p>
+                <p className="text-2xl font-bold text-gray-900">{recommendation.reorderPoint}</p>
+                <p className="text-xs text-gray-500">Order when stock falls to this level</p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-1">Economic Order Quantity</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {recommendation.economicOrderQuantity}
+                </p>
+                <p className="text-xs text-gray-500">Cost-optimal units per order</p>
+              </div>
+            </div>
+          </div>
+
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-900 mb-4">Demand Forecast Trend</h3>
             <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis
                   dataKey="date"
@@ -373,6 +598,19 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                   labelFormatter={(value) => new Date(value).toLocaleDateString()}
                 />
                 <Legend />
+                {[...DEFAULT_INTERVAL_LEVELS]
+                  .sort((a, b) => b - a)
+                  .map((level, index) => (
+                    <Area
+                      key={level}
+                      type="monotone"
+                      dataKey={(d: ChartPoint) => d.ranges[level]}
+                      stroke="none"
+                      fill="#10B981"
+                      fillOpacity={0.12 + index * 0.12}
+                      name={`${level}% Interval`}
+                    />
+                  ))}
                 <Line
                   type="monotone"
                   dataKey="actual"
@@ -388,9 +626,9 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                   strokeWidth={2}
                   strokeDasharray="5 5"
                   name="Forecast"
-                  dot={{ r: 4 }}
+                  dot={forecast.horizon <= 30 ? { r: 3 } : false}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
@@ -453,7 +691,7 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                   <div className="bg-green-50 p-4 rounded-lg">
                     <p className="text-sm text-gray-600 mb-1">Estimated Cost Savings</p>
                     <p className="text-3xl font-bold text-green-600">
-                      ₹{businessImpact.costSavings.toLocaleString()}
+                      {currencySign}{businessImpact.costSavings.toLocaleString()}
                     </p>
                     <p className="text-xs text-gray-600 mt-1">
                       From reduced holding costs
@@ -462,7 +700,7 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                   <div className="bg-blue-50 p-4 rounded-lg">
                     <p className="text-sm text-gray-600 mb-1">Revenue Opportunity</p>
                     <p className="text-3xl font-bold text-blue-600">
-                      ₹{businessImpact.revenueIncrease.toLocaleString()}
+                      {currencySign}{businessImpact.revenueIncrease.toLocaleString()}
                     </p>
                     <p className="text-xs text-gray-600 mt-1">
                       From prevented stockouts
@@ -523,48 +761,123 @@ export default function ForecastDashboard({ shopId }: ForecastDashboardProps) {
                 </div>
                 <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
                   <p className="text-sm text-purple-100 mb-1">Cost Savings</p>
-                  <p className="text-2xl font-bold">₹{whatIfResults.impact.costSavings}</p>
+                  <p className="text-2xl font-bold">{currencySign}{whatIfResults.impact.costSavings}</p>
                 </div>
                 <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
                   <p className="text-sm text-purple-100 mb-1">Revenue Impact</p>
-                  <p className="text-2xl font-bold">₹{whatIfResults.impact.revenueIncrease}</p>
+                  <p className="text-2xl font-bold">{currencySign}{whatIfResults.impact.revenueIncrease}</p>
                 </div>
               </div>
             )}
           </div>
 
           <div className="bg-white rounded-xl shadow-sm p-6">
-            <h3 className="text-lg font-bold text-gray-900 mb-4">Model Performance Metrics</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <h3 className="text-lg font-bold text-gray-900 mb-1">Model Performance Metrics</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {forecast.backtest
+                ? `Out-of-sample errors from ${forecast.backtest.folds.length} rolling-origin folds, predicting ${forecast.backtest.horizon} days ahead each time`
+                : 'In-sample errors (not enough history for holdout backtesting)'}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="bg-gray-50 p-4 rounded-lg">
                 <p className="text-sm text-gray-600 mb-1">MAE (Mean Absolute Error)</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {forecast.metrics.mae.toFixed(2)}
+                  {(forecast.backtest?.metrics ?? forecast.metrics).mae.toFixed(2)}
                 </p>
               </div>
               <div className="bg-gray-50 p-4 rounded-lg">
                 <p className="text-sm text-gray-600 mb-1">RMSE (Root Mean Square Error)</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {forecast.metrics.rmse.toFixed(2)}
+                  {(forecast.backtest?.metrics ?? forecast.metrics).rmse.toFixed(2)}
                 </p>
               </div>
               <div className="bg-gray-50 p-4 rounded-lg">
                 <p className="text-sm text-gray-600 mb-1">MAPE (Mean Absolute % Error)</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {forecast.metrics.mape.toFixed(2)}%
+                  {(forecast.backtest?.metrics ?? forecast.metrics).mape.toFixed(2)}%
+                </p>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-1">sMAPE (Symmetric MAPE)</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {(forecast.backtest?.metrics ?? forecast.metrics).smape.toFixed(2)}%
                 </p>
               </div>
             </div>
+
+            {candidates.length > 0 && (
+              <div className="mt-6 overflow-x-auto">
+                <h4 className="font-semibold text-gray-900 mb-2">Model Comparison</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 px-3 font-semibold text-gray-700">Model</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">MAE</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">RMSE</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">MAPE</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">sMAPE</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {candidates.map((candidate) => {
+                      const metrics = candidate.backtest?.metrics ?? candidate.inSample;
+                      return (
+                        <tr
+                          key={candidate.model}
+                          className={`border-b border-gray-100 ${
+                            candidate.model === forecast.model ? 'bg-blue-50 font-medium' : ''
+                          }`}
+                        >
+                          <td className="py-2 px-3 text-gray-900">{candidate.model}</td>
+                          <td className="py-2 px-3 text-right text-gray-600">{metrics.mae.toFixed(2)}</td>
+                          <td className="py-2 px-3 text-right text-gray-600">{metrics.rmse.toFixed(2)}</td>
+                          <td className="py-2 px-3 text-right text-gray-600">{metrics.mape.toFixed(2)}%</td>
+                          <td className="py-2 px-3 text-right text-gray-600">{metrics.smape.toFixed(2)}%</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {forecast.backtest && (
+              <div className="mt-6">
+                <h4 className="font-semibold text-gray-900 mb-2">Per-Fold Errors ({forecast.model})</h4>
+                <ResponsiveContainer width="100%" height={200}>
+                  <BarChart
+                    data={forecast.backtest.folds.map((fold) => ({
+                      name: `${fold.start} → ${fold.end}`,
+                      mae: Number(fold.metrics.mae.toFixed(2)),
+                      mape: Number(fold.metrics.mape.toFixed(2)),
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="mae" fill="#3B82F6" name="MAE (units)" />
+                    <Bar dataKey="mape" fill="#F59E0B" name="MAPE (%)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
             <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
               <p className="text-sm text-blue-900">
                 <strong>Selected Model:</strong> {forecast.model} - Automatically chosen as the
-                best performing model based on lowest MAPE score. Lower error metrics indicate
-                higher accuracy.
+                best performing model based on lowest {forecast.backtest ? 'out-of-sample' : 'in-sample'}{' '}
+                MAPE score. Lower error metrics indicate higher accuracy.
               </p>
             </div>
           </div>
         </>
       )}
+
+      {selectedProduct && (
+        <ForecastAccuracy productId={selectedProduct.id} gapFill={selectedProduct.gap_fill} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { History, Undo2 } from 'lucide-react';
+
+interface ImportBatch {
+  id: string;
+  file_name: string;
+  uploaded_by: string | null;
+  product_ids: string[];
+  inserted_rows: number;
+  updated_rows: number;
+  skipped_rows: number;
+  rejected_rows: number;
+  rolled_back_at: string | null;
+  created_at: string;
+}
+
+interface ImportHistoryProps {
+  shopId: string;
+}
+
+export default function ImportHistory({ shopId }: ImportHistoryProps) {
+  const { user } = useAuth();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [productNames, setProductNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadHistory();
+  }, [shopId]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    const [{ data: batchData }, { data: productData }] = await Promise.all([
+      supabase
+        .from('import_batches')
+        .select(
+          'id, file_name, uploaded_by, product_ids, inserted_rows, updated_rows, skipped_rows, rejected_rows, rolled_back_at, created_at'
+        )
+        .eq('shop_id', shopId)
+        .order('created_at', { ascending: false })
+        .limit(20),
+      supabase.from('products').select('id, name').eq('shop_id', shopId),
+    ]);
+
+    if (batchData) setBatches(batchData);
+    if (productData) setProductNames(new Map(productData.map((p) => [p.id, p.name])));
+    setLoading(false);
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (
+      !confirm(
+        `Roll back "${batch.file_name}"? Days it added will be removed and days it changed will be restored.`
+      )
+    ) {
+      return;
+    }
+
+    setError('');
+    setRollingBack(batch.id);
+    const { error: rollbackError } = await supabase.rpc('rollback_import_batch', {
+      p_batch_id: batch.id,
+    });
+
+    if (rollbackError) {
+      setError(`Rollback failed: ${rollbackError.message}`);
+    } else {
+      await loadHistory();
+    }
+    setRollingBack(null);
+  };
+
+  const describeProducts = (ids: string[]) => {
+    const names = ids.map((id) => productNames.get(id) ?? 'Deleted product');
+    return names.length <= 2 ? names.join(', ') : `${names.slice(0, 2).join(', ')} +${names.length - 2} more`;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-bold text-gray-900">Upload History</h3>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : batches.length === 0 ? (
+        <p className="text-sm text-gray-600">No uploads yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Uploaded</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">File</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Products</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Added</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Updated</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Skipped</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Rejected</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((batch) => (
+                <tr
+                  key={batch.id}
+                  className={`border-b border-gray-100 ${batch.rolled_back_at ? 'text-gray-400' : ''}`}
+                >
+                  <td className="py-2 px-3 whitespace-nowrap">
+                    {new Date(batch.created_at).toLocaleString('en-IN', {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                    <span className="block text-xs text-gray-500">
+                      {batch.uploaded_by === user?.id ? 'by you' : 'by another user'}
+                    </span>
+                  </td>
+                  <td className="py-2 px-3 font-medium">{batch.file_name}</td>
+                  <td className="py-2 px-3">{describeProducts(batch.product_ids)}</td>
+                  <td className="py-2 px-3 text-right">{batch.inserted_rows}</td>
+                  <td className="py-2 px-3 text-right">{batch.updated_rows}</td>
+                  <td className="py-2 px-3 text-right">{batch.skipped_rows}</td>
+                  <td className="py-2 px-3 text-right">{batch.rejected_rows}</td>
+                  <td className="py-2 px-3">
+                    {batch.rolled_back_at ? (
+                      <span className="text-xs">Rolled back</span>
+                    ) : (
+                      <button
+                        onClick={() => handleRollback(batch)}
+                        disabled={rollingBack !== null}
+                        className="flex items-center gap-1 px-2 py-1 text-red-600 hover:bg-red-50 rounded transition text-xs font-medium disabled:opacity-50"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        {rollingBack === batch.id ? 'Rolling back...' : 'Roll back'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
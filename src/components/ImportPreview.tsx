@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { CheckCircle, XCircle, Download } from 'lucide-react';
+import { ParsedCSV, stringifyCSV } from '../utils/csv';
+import { SalesValidation } from '../utils/salesImport';
+
+interface ImportPreviewProps {
+  parsed: ParsedCSV;
+  validation: SalesValidation;
+  fileName: string;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export default function ImportPreview({ parsed, validation, fileName }: ImportPreviewProps) {
+  const [showInvalidOnly, setShowInvalidOnly] = useState(false);
+
+  const reasonsByRow = new Map(validation.rejected.map((r) => [r.rowNumber, r.reasons]));
+  const rows = parsed.rows
+    .map((values, index) => ({ rowNumber: index + 1, values, reasons: reasonsByRow.get(index + 1) }))
+    .filter((row) => !showInvalidOnly || row.reasons);
+
+  const downloadRejected = () => {
+    const csv = stringifyCSV(
+      [...parsed.headers, 'Errors'],
+      validation.rejected.map((r) => [...r.values, r.reasons.join('; ')]),
+      parsed.delimiter
+    );
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName.replace(/\.[^.]+$/, '') + '_rejected.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="font-semibold text-gray-900">Preview</h4>
+          <p className="text-sm text-gray-600">
+            <span className="text-green-700 font-medium">{validation.valid.length} valid</span>
+            {' · '}
+            <span className="text-red-700 font-medium">{validation.rejected.length} rejected</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showInvalidOnly}
+              onChange={(e) => setShowInvalidOnly(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Only rejected rows
+          </label>
+          {validation.rejected.length > 0 && (
+            <button
+              type="button"
+              onClick={downloadRejected}
+              className="flex items-center gap-2 px-3 py-1.5 border border-red-600 text-red-600 rounded-lg hover:bg-red-50 transition text-sm font-medium"
+            >
+              <Download className="w-4 h-4" />
+              Rejected rows
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-white">
+            <tr className="border-b border-gray-200">
+              <th className="text-left py-2 px-3 font-semibold text-gray-700">Row</th>
+              {parsed.headers.map((header) => (
+                <th key={header} className="text-left py-2 px-3 font-semibold text-gray-700">
+                  {header}
+                </th>
+              ))}
+              <th className="text-left py-2 px-3 font-semibold text-gray-700">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+              <tr
+                key={row.rowNumber}
+                className={`border-b border-gray-100 ${row.reasons ? 'bg-red-50' : ''}`}
+              >
+                <td className="py-2 px-3 text-gray-500">{row.rowNumber}</td>
+                {parsed.headers.map((header, index) => (
+                  <td key={header} className="py-2 px-3 text-gray-900 whitespace-nowrap">
+                    {row.values[index]}
+                  </td>
+                ))}
+                <td className="py-2 px-3">
+                  {row.reasons ? (
+                    <span className="flex items-start gap-1 text-red-700">
+                      <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      {row.reasons.join('; ')}
+                    </span>
+                  ) : (
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > PREVIEW_LIMIT && (
+        <p className="text-xs text-gray-500 mt-2">
+          Showing first {PREVIEW_LIMIT} of {rows.length} rows
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Plus, Edit, Trash2, Search, X, Package } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, X, Package, ClipboardList } from 'lucide-react';
+import { GapFillMethod } from '../utils/preprocessing';
+import { currencySymbol } from '../utils/shopSettings';
+import StockLedger from './StockLedger';
+import StockReconciliation from './StockReconciliation';
 
 interface Product {
   id: string;
@@ -9,13 +13,28 @@ interface Product {
   brand: string;
   current_stock: number;
   unit_price: number;
+  lead_time_days: number;
+  service_level: number;
+  gap_fill: GapFillMethod;
+  supplier_id: string | null;
+  minimum_order_quantity: number;
+  case_pack_size: number;
+  cost_price: number;
+  barcode: string | null;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+  lead_time_days: number;
 }
 
 interface ProductManagementProps {
   shopId: string;
+  currency: string;
 }
 
-export default function ProductManagement({ shopId }: ProductManagementProps) {
+export default function ProductManagement({ shopId, currency }: ProductManagementProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
@@ -29,13 +48,28 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
     brand: 'Apsara',
     current_stock: 0,
     unit_price: 0,
+    lead_time_days: 7,
+    service_level: 95,
+    gap_fill: 'zero' as GapFillMethod,
+    supplier_id: null as string | null,
+    minimum_order_quantity: 1,
+    case_pack_size: 1,
+    cost_price: 0,
+    barcode: '',
   });
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [ledgerProduct, setLedgerProduct] = useState<Product | null>(null);
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+  const [error, setError] = useState('');
+  const currencySign = currencySymbol(currency);
 
   const productCategories = ['Pen', 'Pencil', 'Notebook', 'Eraser', 'Sharpener', 'Ruler', 'Marker', 'Crayon', 'Other'];
+  const serviceLevels = [80, 85, 90, 95, 97.5, 99];
   const brands = ['Apsara', 'Natraj', 'DOMS', 'Cello', 'Classmate', 'Reynolds', 'Faber-Castell', 'Camlin', 'Other'];
 
   useEffect(() => {
     loadProducts();
+    loadSuppliers();
   }, [shopId]);
 
   useEffect(() => {
@@ -56,6 +90,16 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
     setLoading(false);
   };
 
+  const loadSuppliers = async () => {
+    const { data } = await supabase
+      .from('suppliers')
+      .select('id, name, lead_time_days')
+      .eq('shop_id', shopId)
+      .order('name');
+
+    setSuppliers(data || []);
+  };
+
   const filterProducts = () => {
     let filtered = products;
 
@@ -63,7 +107,8 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
       filtered = filtered.filter(
         (p) =>
           p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          p.brand.toLowerCase().includes(searchTerm.toLowerCase())
+          p.brand.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          p.barcode === searchTerm.trim()
       );
     }
 
@@ -77,30 +122,32 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (editingProduct) {
-      const { error } = await supabase
-        .from('products')
-        .update({
-          ...formData,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', editingProduct.id);
-
-      if (!error) {
-        loadProducts();
-        closeModal();
-      }
-    } else {
-      const { error } = await supabase.from('products').insert({
-        ...formData,
-        shop_id: shopId,
-      });
+    // Stock only changes through the ledger, so it is never part of the product row update
+    const { current_stock: openingStock, barcode, ...rest } = formData;
+    const values = { ...rest, barcode: barcode.trim() || null };
 
-      if (!error) {
-        loadProducts();
-        closeModal();
-      }
+    setError('');
+
+    const { error: saveError } = editingProduct
+      ? await supabase
+          .from('products')
+          .update({
+            ...values,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', editingProduct.id)
+      : await supabase.rpc('create_product', {
+          p_product: { ...values, shop_id: shopId },
+          p_opening_stock: openingStock,
+        });
+
+    if (saveError) {
+      setError(saveError.message);
+      return;
     }
+
+    loadProducts();
+    closeModal();
   };
 
   const handleDelete = async (id: string) => {
@@ -119,6 +166,14 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
         brand: product.brand,
         current_stock: product.current_stock,
         unit_price: product.unit_price,
+        lead_time_days: product.lead_time_days,
+        service_level: product.service_level,
+        gap_fill: product.gap_fill,
+        supplier_id: product.supplier_id,
+        minimum_order_quantity: product.minimum_order_quantity,
+        case_pack_size: product.case_pack_size,
+        cost_price: product.cost_price,
+        barcode: product.barcode ?? '',
       });
     } else {
       setEditingProduct(null);
@@ -128,14 +183,25 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
         brand: 'Apsara',
         current_stock: 0,
         unit_price: 0,
+        lead_time_days: 7,
+        service_level: 95,
+        gap_fill: 'zero',
+        supplier_id: null,
+        minimum_order_quantity: 1,
+        case_pack_size: 1,
+        cost_price: 0,
+        barcode: '',
       });
     }
     setShowModal(true);
   };
 
+  const selectedSupplier = suppliers.find((s) => s.id === formData.supplier_id);
+
   const closeModal = () => {
     setShowModal(false);
     setEditingProduct(null);
+    setError('');
   };
 
   return (
@@ -235,9 +301,16 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
                         {product.current_stock} units
                       </span>
                     </td>
-                    <td className="py-3 px-4 text-gray-600">₹{product.unit_price.toFixed(2)}</td>
+                    <td className="py-3 px-4 text-gray-600">{currencySign}{product.unit_price.toFixed(2)}</td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setLedgerProduct(product)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded transition"
+                          title="Stock movements"
+                        >
+                          <ClipboardList className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => openModal(product)}
                           className="p-1 text-blue-600 hover:bg-blue-50 rounded transition"
@@ -260,6 +333,8 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
         )}
       </div>
 
+      <StockReconciliation key={ledgerVersion} shopId={shopId} onAdjusted={loadProducts} />
+
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
@@ -272,6 +347,12 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
               </button>
             </div>
 
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+                {error}
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Product Name</label>
@@ -285,6 +366,17 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Barcode / SKU</label>
+                <input
+                  type="text"
+                  value={formData.barcode}
+                  onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Optional, scan or type the code on the pack"
+                />
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
@@ -319,21 +411,27 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Current Stock</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {editingProduct ? 'Current Stock' : 'Opening Stock'}
+                  </label>
                   <input
                     type="number"
                     value={formData.current_stock}
                     onChange={(e) =>
                       setFormData({ ...formData, current_stock: parseInt(e.target.value) || 0 })
                     }
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
                     min="0"
+                    disabled={!!editingProduct}
                     required
                   />
+                  {editingProduct && (
+                    <p className="text-xs text-gray-500 mt-1">Record a stock movement to change it</p>
+                  )}
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Unit Price (₹)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Unit Price ({currencySign})</label>
                   <input
                     type="number"
                     step="0.01"
@@ -348,6 +446,115 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Supplier</label>
+                <select
+                  value={formData.supplier_id ?? ''}
+                  onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value || null })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No supplier</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Cost Price ({currencySign})</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.cost_price}
+                    onChange={(e) =>
+                      setFormData({ ...formData, cost_price: parseFloat(e.target.value) || 0 })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    min="0"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Case Pack</label>
+                  <input
+                    type="number"
+                    value={formData.case_pack_size}
+                    onChange={(e) =>
+                      setFormData({ ...formData, case_pack_size: parseInt(e.target.value) || 1 })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    min="1"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Min. Order</label>
+                  <input
+                    type="number"
+                    value={formData.minimum_order_quantity}
+                    onChange={(e) =>
+                      setFormData({ ...formData, minimum_order_quantity: parseInt(e.target.value) || 1 })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    min="1"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    value={selectedSupplier ? selectedSupplier.lead_time_days : formData.lead_time_days}
+                    onChange={(e) =>
+                      setFormData({ ...formData, lead_time_days: parseInt(e.target.value) || 0 })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                    min="0"
+                    disabled={!!selectedSupplier}
+                    required
+                  />
+                  {selectedSupplier && (
+                    <p className="text-xs text-gray-500 mt-1">From {selectedSupplier.name}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Service Level (%)</label>
+                  <select
+                    value={formData.service_level}
+                    onChange={(e) =>
+                      setFormData({ ...formData, service_level: parseFloat(e.target.value) })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {serviceLevels.map((level) => (
+                      <option key={level} value={level}>
+                        {level}%
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Days Without Sales</label>
+                <select
+                  value={formData.gap_fill}
+                  onChange={(e) => setFormData({ ...formData, gap_fill: e.target.value as GapFillMethod })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="zero">Count as zero sales</option>
+                  <option value="interpolate">Not recorded, interpolate</option>
+                </select>
+              </div>
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -367,6 +574,18 @@ export default function ProductManagement({ shopId }: ProductManagementProps) {
           </div>
         </div>
       )}
+
+      {ledgerProduct && (
+        <StockLedger
+          shopId={shopId}
+          product={ledgerProduct}
+          onClose={() => setLedgerProduct(null)}
+          onRecorded={() => {
+            loadProducts();
+            setLedgerVersion((v) => v + 1);
+          }}
+        />
+      )}
     </div>
   );
 }
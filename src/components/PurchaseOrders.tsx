@@ -0,0 +1,359 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { ShoppingCart, Send, PackageCheck, Trash2, FilePlus } from 'lucide-react';
+import {
+  buildOrderSuggestions,
+  OPEN_ORDER_STATUSES,
+  OrderSuggestion,
+  PurchaseOrderStatus,
+} from '../utils/replenishment';
+
+interface Product {
+  id: string;
+  name: string;
+  brand: string;
+  current_stock: number;
+  supplier_id: string | null;
+  case_pack_size: number;
+  minimum_order_quantity: number;
+}
+
+interface OrderItem {
+  id: string;
+  product_id: string;
+  quantity: number;
+}
+
+interface PurchaseOrder {
+  id: string;
+  supplier: string;
+  status: PurchaseOrderStatus;
+  created_at: string;
+  sent_at: string | null;
+  received_at: string | null;
+  purchase_order_items: OrderItem[];
+}
+
+interface PurchaseOrdersProps {
+  shopId: string;
+}
+
+export default function PurchaseOrders({ shopId }: PurchaseOrdersProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [supplierNames, setSupplierNames] = useState<Map<string, string>>(new Map());
+  const [recommended, setRecommended] = useState<Map<string, number>>(new Map());
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [shopId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    const [{ data: productData }, { data: supplierData }, { data: forecastData }, { data: orderData }] =
+      await Promise.all([
+        supabase
+          .from('products')
+          .select('id, name, brand, current_stock, supplier_id, case_pack_size, minimum_order_quantity')
+          .eq('shop_id', shopId)
+          .order('name'),
+        supabase.from('suppliers').select('id, name').eq('shop_id', shopId),
+        supabase.from('latest_product_forecasts').select('product_id, recommended_stock').eq('shop_id', shopId),
+        supabase
+          .from('purchase_orders')
+          .select('id, supplier, status, created_at, sent_at, received_at, purchase_order_items(id, product_id, quantity)')
+          .eq('shop_id', shopId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+    if (productData) setProducts(productData);
+    if (supplierData) setSupplierNames(new Map(supplierData.map((sup) => [sup.id, sup.name])));
+    if (forecastData) setRecommended(new Map(forecastData.map((f) => [f.product_id, f.recommended_stock])));
+    if (orderData) setOrders(orderData);
+    setQuantities({});
+    setLoading(false);
+  };
+
+  const onOrder = new Map<string, number>();
+  for (const order of orders.filter((o) => OPEN_ORDER_STATUSES.includes(o.status))) {
+    for (const item of order.purchase_order_items) {
+      onOrder.set(item.product_id, (onOrder.get(item.product_id) ?? 0) + item.quantity);
+    }
+  }
+
+  const suggestions = buildOrderSuggestions(
+    products.map((p) => ({
+      id: p.id,
+      name: p.name,
+      brand: p.brand,
+      supplierId: p.supplier_id,
+      supplierName: p.supplier_id ? supplierNames.get(p.supplier_id) ?? null : null,
+      currentStock: p.current_stock,
+      recommendedStock: recommended.get(p.id) ?? null,
+      onOrder: onOrder.get(p.id) ?? 0,
+      casePackSize: p.case_pack_size,
+      minimumOrderQuantity: p.minimum_order_quantity,
+    }))
+  );
+
+  const productName = (id: string) => products.find((p) => p.id === id)?.name ?? 'Deleted product';
+
+  const createDraft = async (suggestion: OrderSuggestion) => {
+    const items = suggestion.lines
+      .map((line) => ({ product_id: line.productId, quantity: quantities[line.productId] ?? line.quantity }))
+      .filter((item) => item.quantity > 0);
+    if (items.length === 0) return;
+
+    setError('');
+    setSaving(suggestion.supplier);
+    const { data: order, error: orderError } = await supabase
+      .from('purchase_orders')
+      .insert({ shop_id: shopId, supplier: suggestion.supplier, supplier_id: suggestion.supplierId })
+      .select('id')
+      .single();
+
+    if (orderError) {
+      setError(orderError.message);
+    } else {
+      const { error: itemsError } = await supabase
+        .from('purchase_order_items')
+        .insert(items.map((item) => ({ ...item, purchase_order_id: order.id })));
+
+      if (itemsError) {
+        await supabase.from('purchase_orders').delete().eq('id', order.id);
+        setError(itemsError.message);
+      } else {
+        await loadData();
+      }
+    }
+    setSaving(null);
+  };
+
+  const updateItemQuantity = async (item: OrderItem, quantity: number) => {
+    if (quantity === item.quantity) return;
+    const { error: updateError } =
+      quantity > 0
+        ? await supabase.from('purchase_order_items').update({ quantity }).eq('id', item.id)
+        : await supabase.from('purchase_order_items').delete().eq('id', item.id);
+
+    if (updateError) setError(updateError.message);
+    loadData();
+  };
+
+  const markSent = async (order: PurchaseOrder) => {
+    const { error: updateError } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', order.id);
+
+    if (updateError) setError(updateError.message);
+    loadData();
+  };
+
+  const markReceived = async (order: PurchaseOrder) => {
+    if (!confirm(`Mark the ${order.supplier} order as received? Stock will be increased for every item.`)) {
+      return;
+    }
+
+    setSaving(order.id);
+    const { error: receiveError } = await supabase.rpc('receive_purchase_order', { p_order_id: order.id });
+    if (receiveError) setError(receiveError.message);
+    await loadData();
+    setSaving(null);
+  };
+
+  const deleteDraft = async (order: PurchaseOrder) => {
+    if (confirm('Delete this draft order?')) {
+      await supabase.from('purchase_orders').delete().eq('id', order.id);
+      loadData();
+    }
+  };
+
+  const statusStyles: Record<PurchaseOrderStatus, string> = {
+    draft: 'bg-gray-100 text-gray-800',
+    sent: 'bg-blue-100 text-blue-800',
+    received: 'bg-green-100 text-green-800',
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Purchase Orders</h2>
+          <p className="text-gray-600">
+            Order quantity = recommended stock − current stock − already on order
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {suggestions.length === 0 ? (
+          <div className="text-center py-12">
+            <ShoppingCart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing to order</h3>
+            <p className="text-gray-600">
+              Every forecasted product is covered by current stock and open orders
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.supplierId ?? suggestion.supplier} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{suggestion.supplier}</h3>
+                    {!suggestion.supplierId && (
+                      <p className="text-xs text-gray-500">Brand without a linked supplier</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => createDraft(suggestion)}
+                    disabled={saving !== null}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50"
+                  >
+                    <FilePlus className="w-4 h-4" />
+                    {saving === suggestion.supplier ? 'Creating...' : 'Create Draft'}
+                  </button>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 px-3 font-semibold text-gray-700">Product</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">Recommended</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">In Stock</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">On Order</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">Order Qty</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {suggestion.lines.map((line) => (
+                      <tr key={line.productId} className="border-b border-gray-100">
+                        <td className="py-2 px-3 text-gray-900">
+                          {line.name}
+                          {line.casePackSize > 1 && (
+                            <span className="text-xs text-gray-500"> · case of {line.casePackSize}</span>
+                          )}
+                        </td>
+                        <td className="py-2 px-3 text-right text-gray-900">{line.recommendedStock}</td>
+                        <td className="py-2 px-3 text-right text-gray-900">{line.currentStock}</td>
+                        <td className="py-2 px-3 text-right text-gray-600">{line.onOrder}</td>
+                        <td className="py-2 px-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step={line.casePackSize}
+                            value={quantities[line.productId] ?? line.quantity}
+                            onChange={(e) =>
+                              setQuantities({
+                                ...quantities,
+                                [line.productId]: Math.max(0, parseInt(e.target.value) || 0),
+                              })
+                            }
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-lg font-bold text-gray-900 mb-4">Orders</h3>
+        {orders.length === 0 ? (
+          <p className="text-sm text-gray-600">No purchase orders yet</p>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => (
+              <div key={order.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-3">
+                    <h4 className="font-semibold text-gray-900">{order.supplier}</h4>
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[order.status]}`}
+                    >
+                      {order.status}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(order.received_at ?? order.sent_at ?? order.created_at).toLocaleDateString('en-IN')}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {order.status === 'draft' && (
+                      <>
+                        <button
+                          onClick={() => markSent(order)}
+                          className="flex items-center gap-1 px-3 py-1.5 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition text-sm font-medium"
+                        >
+                          <Send className="w-4 h-4" />
+                          Mark Sent
+                        </button>
+                        <button
+                          onClick={() => deleteDraft(order)}
+                          className="p-1.5 text-red-600 hover:bg-red-50 rounded transition"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                    {order.status === 'sent' && (
+                      <button
+                        onClick={() => markReceived(order)}
+                        disabled={saving !== null}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium disabled:opacity-50"
+                      >
+                        <PackageCheck className="w-4 h-4" />
+                        {saving === order.id ? 'Receiving...' : 'Mark Received'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {order.purchase_order_items.map((item) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center gap-2 bg-gray-50 rounded-lg px-3 py-1.5 text-sm"
+                    >
+                      <span className="text-gray-900">{productName(item.product_id)}</span>
+                      {order.status === 'draft' ? (
+                        <input
+                          type="number"
+                          min="0"
+                          defaultValue={item.quantity}
+                          onBlur={(e) => updateItemQuantity(item, Math.max(0, parseInt(e.target.value) || 0))}
+                          className="w-20 px-2 py-0.5 border border-gray-300 rounded text-right"
+                        />
+                      ) : (
+                        <span className="font-medium text-gray-700">× {item.quantity}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
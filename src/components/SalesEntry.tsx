@@ -0,0 +1,364 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Receipt, Search, Trash2, CheckCircle, AlertCircle } from 'lucide-react';
+import { SalesRecord } from '../utils/salesImport';
+import { currencySymbol, todayIn } from '../utils/shopSettings';
+
+interface Product {
+  id: string;
+  name: string;
+  brand: string;
+  unit_price: number;
+  barcode: string | null;
+}
+
+interface EntryLine {
+  productId: string;
+  quantity: number;
+  price: number;
+}
+
+interface RecordedSale {
+  product_id: string;
+  quantity_sold: number;
+  revenue: number;
+}
+
+interface SalesEntryProps {
+  shopId: string;
+  currency: string;
+  timezone: string;
+}
+
+const MAX_MATCHES = 8;
+
+export default function SalesEntry({ shopId, currency, timezone }: SalesEntryProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [date, setDate] = useState(todayIn(timezone));
+  const [isFestival, setIsFestival] = useState(false);
+  const [search, setSearch] = useState('');
+  const [lines, setLines] = useState<EntryLine[]>([]);
+  const [recorded, setRecorded] = useState<RecordedSale[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | null; message: string }>({
+    type: null,
+    message: '',
+  });
+  const searchRef = useRef<HTMLInputElement>(null);
+  const currencySign = currencySymbol(currency);
+
+  useEffect(() => {
+    loadProducts();
+  }, [shopId]);
+
+  useEffect(() => {
+    loadRecorded();
+  }, [shopId, date]);
+
+  const loadProducts = async () => {
+    const { data } = await supabase
+      .from('products')
+      .select('id, name, brand, unit_price, barcode')
+      .eq('shop_id', shopId)
+      .order('name');
+
+    setProducts(data || []);
+  };
+
+  const loadRecorded = async () => {
+    const { data } = await supabase
+      .from('sales_data')
+      .select('product_id, quantity_sold, revenue')
+      .eq('shop_id', shopId)
+      .eq('date', date);
+
+    setRecorded(data || []);
+  };
+
+  const term = search.trim().toLowerCase();
+  const matches = term
+    ? products
+        .filter(
+          (p) =>
+            p.name.toLowerCase().includes(term) ||
+            p.brand.toLowerCase().includes(term) ||
+            p.barcode?.toLowerCase() === term
+        )
+        .slice(0, MAX_MATCHES)
+    : [];
+
+  const addProduct = (product: Product) => {
+    setLines((current) =>
+      current.some((line) => line.productId === product.id)
+        ? current.map((line) =>
+            line.productId === product.id ? { ...line, quantity: line.quantity + 1 } : line
+          )
+        : [...current, { productId: product.id, quantity: 1, price: product.unit_price }]
+    );
+    setSearch('');
+    searchRef.current?.focus();
+  };
+
+  // Scanners type the code and press Enter, so an exact barcode match is added straight away
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const scanned = products.find((p) => p.barcode && p.barcode.toLowerCase() === term);
+    const product = scanned ?? (matches.length === 1 ? matches[0] : null);
+    if (product) {
+      addProduct(product);
+    } else if (term) {
+      setStatus({ type: 'error', message: `No product matches "${search.trim()}"` });
+    }
+  };
+
+  const updateLine = (productId: string, changes: Partial<EntryLine>) => {
+    setLines((current) =>
+      current.map((line) => (line.productId === productId ? { ...line, ...changes } : line))
+    );
+  };
+
+  const removeLine = (productId: string) => {
+    setLines((current) => current.filter((line) => line.productId !== productId));
+  };
+
+  const handleSave = async () => {
+    const records: SalesRecord[] = lines
+      .filter((line) => line.quantity > 0)
+      .map((line) => ({
+        product_id: line.productId,
+        date,
+        quantity_sold: line.quantity,
+        revenue: Math.round(line.quantity * line.price * 100) / 100,
+        is_festival: isFestival,
+      }));
+
+    if (records.length === 0) {
+      setStatus({ type: 'error', message: 'Add at least one product with a quantity' });
+      return;
+    }
+
+    setSaving(true);
+    setStatus({ type: null, message: '' });
+
+    try {
+      // Entries for a day that already has sales are added to them on the server, so the screen can be used
+      // several times a day and from several tills at once
+      const { error } = await supabase.rpc('add_sales', {
+        p_shop_id: shopId,
+        p_file_name: `Daily entry ${date}`,
+        p_rows: records,
+      });
+
+      if (error) throw new Error(error.message);
+
+      const units = records.reduce((sum, r) => sum + r.quantity_sold, 0);
+      setStatus({
+        type: 'success',
+        message: `Saved ${units} units across ${records.length} product${records.length === 1 ? '' : 's'} for ${new Date(
+          date
+        ).toLocaleDateString()}`,
+      });
+      setLines([]);
+      loadRecorded();
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: err instanceof Error ? `Save failed: ${err.message}` : 'Save failed',
+      });
+    }
+
+    setSaving(false);
+    searchRef.current?.focus();
+  };
+
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const entryTotal = lines.reduce((sum, line) => sum + line.quantity * line.price, 0);
+  const recordedTotal = recorded.reduce((sum, sale) => sum + Number(sale.revenue), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Daily Sales</h2>
+            <p className="text-gray-600">Record what was sold today without a spreadsheet</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isFestival}
+                onChange={(e) => setIsFestival(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Festival day
+            </label>
+            <input
+              type="date"
+              value={date}
+              max={todayIn(timezone)}
+              onChange={(e) => setDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            ref={searchRef}
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="Scan a barcode or search products..."
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            autoFocus
+          />
+          {matches.length > 0 && (
+            <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg">
+              {matches.map((product) => (
+                <button
+                  key={product.id}
+                  type="button"
+                  onClick={() => addProduct(product)}
+                  className="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-blue-50"
+                >
+                  <span>
+                    <span className="font-medium text-gray-900">{product.name}</span>
+                    <span className="text-sm text-gray-500"> · {product.brand}</span>
+                  </span>
+                  <span className="text-sm text-gray-600">{currencySign}{product.unit_price.toFixed(2)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {status.type && (
+          <div
+            className={`flex items-start gap-3 p-4 rounded-lg mb-6 ${
+              status.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-800'
+                : 'bg-red-50 border border-red-200 text-red-800'
+            }`}
+          >
+            {status.type === 'success' ? (
+              <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            ) : (
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            )}
+            <p className="text-sm">{status.message}</p>
+          </div>
+        )}
+
+        {lines.length === 0 ? (
+          <div className="text-center py-12">
+            <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Scan or search for a product to start the day's entry</p>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Product</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Quantity</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Price ({currencySign})</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Total</th>
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => {
+                    const product = productById.get(line.productId);
+                    return (
+                      <tr key={line.productId} className="border-b border-gray-100">
+                        <td className="py-3 px-4">
+                          <p className="font-medium text-gray-900">{product?.name}</p>
+                          <p className="text-xs text-gray-500">{product?.brand}</p>
+                        </td>
+                        <td className="py-3 px-4">
+                          <input
+                            type="number"
+                            min="0"
+                            value={line.quantity}
+                            onChange={(e) =>
+                              updateLine(line.productId, { quantity: parseInt(e.target.value) || 0 })
+                            }
+                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </td>
+                        <td className="py-3 px-4">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.price}
+                            onChange={(e) =>
+                              updateLine(line.productId, { price: parseFloat(e.target.value) || 0 })
+                            }
+                            className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </td>
+                        <td className="py-3 px-4 text-right text-gray-900">
+                          {currencySign}{(line.quantity * line.price).toFixed(2)}
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <button
+                            onClick={() => removeLine(line.productId)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between mt-6">
+              <p className="text-lg font-semibold text-gray-900">Total {currencySign}{entryTotal.toFixed(2)}</p>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save Sales'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {recorded.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-gray-900">
+              Already Recorded for {new Date(date).toLocaleDateString()}
+            </h3>
+            <p className="text-sm text-gray-600">{currencySign}{recordedTotal.toFixed(2)}</p>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {recorded.map((sale) => (
+                <tr key={sale.product_id} className="border-b border-gray-100">
+                  <td className="py-2 px-3 text-gray-900">
+                    {productById.get(sale.product_id)?.name ?? 'Deleted product'}
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-600">{sale.quantity_sold} units</td>
+                  <td className="py-2 px-3 text-right text-gray-900">{currencySign}{Number(sale.revenue).toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
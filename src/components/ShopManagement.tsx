@@ -1,15 +1,20 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, X } from 'lucide-react';
+import { Plus, X, Users } from 'lucide-react';
+import ShopMembers from './ShopMembers';
+import { SHOP_CATEGORIES } from '../utils/shopSettings';
 
 interface ShopManagementProps {
+  shopId?: string;
   onShopCreated: () => void;
+  onShopLeft?: () => void;
 }
 
-export default function ShopManagement({ onShopCreated }: ShopManagementProps) {
+export default function ShopManagement({ shopId, onShopCreated, onShopLeft }: ShopManagementProps) {
   const { user } = useAuth();
   const [showModal, setShowModal] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     category: 'Stationery',
@@ -18,18 +23,6 @@ export default function ShopManagement({ onShopCreated }: ShopManagementProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const categories = [
-    'Stationery',
-    'Grocery',
-    'Electronics',
-    'Fashion',
-    'Home & Kitchen',
-    'Books',
-    'Sports',
-    'Toys',
-    'Other',
-  ];
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -61,13 +54,35 @@ export default function ShopManagement({ onShopCreated }: ShopManagementProps) {
 
   return (
     <>
-      <button
-        onClick={() => setShowModal(true)}
-        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
-      >
-        <Plus className="w-5 h-5" />
-        Create Shop
-      </button>
+      <div className="flex items-center gap-3">
+        {shopId && (
+          <button
+            onClick={() => setShowMembers(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+          >
+            <Users className="w-5 h-5" />
+            Team
+          </button>
+        )}
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+        >
+          <Plus className="w-5 h-5" />
+          Create Shop
+        </button>
+      </div>
+
+      {showMembers && shopId && (
+        <ShopMembers
+          shopId={shopId}
+          onClose={() => setShowMembers(false)}
+          onLeft={() => {
+            setShowMembers(false);
+            onShopLeft?.();
+          }}
+        />
+      )}
 
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -112,7 +127,7 @@ export default function ShopManagement({ onShopCreated }: ShopManagementProps) {
                   onChange={(e) => setFormData({ ...formData, category: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  {categories.map((cat) => (
+                  {SHOP_CATEGORIES.map((cat) => (
                     <option key={cat} value={cat}>
                       {cat}
                     </option>
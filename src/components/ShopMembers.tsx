@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Trash2, UserPlus } from 'lucide-react';
+
+type ShopRole = 'owner' | 'manager' | 'staff' | 'viewer';
+
+interface Member {
+  id: string;
+  user_id: string | null;
+  email: string;
+  role: ShopRole;
+  accepted_at: string | null;
+}
+
+interface ShopMembersProps {
+  shopId: string;
+  onClose: () => void;
+  onLeft: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<ShopRole, string> = {
+  owner: 'Full access, including deleting the shop',
+  manager: 'Manages products, suppliers, orders and staff',
+  staff: 'Enters sales and stock movements',
+  viewer: 'Read-only access',
+};
+
+const ROLE_ORDER: ShopRole[] = ['owner', 'manager', 'staff', 'viewer'];
+
+export default function ShopMembers({ shopId, onClose, onLeft }: ShopMembersProps) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShopRole>('staff');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadMembers();
+  }, [shopId]);
+
+  const loadMembers = async () => {
+    setLoading(true);
+    const { data } = await supabase
+      .from('shop_members')
+      .select('id, user_id, email, role, accepted_at')
+      .eq('shop_id', shopId)
+      .order('created_at');
+
+    setMembers(
+      (data || []).sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role))
+    );
+    setLoading(false);
+  };
+
+  const myRole = members.find((m) => m.user_id === user?.id)?.role ?? 'viewer';
+  // Owners manage everyone; managers can only add and change staff and viewers
+  const assignableRoles: ShopRole[] =
+    myRole === 'owner' ? ['manager', 'staff', 'viewer'] : myRole === 'manager' ? ['staff', 'viewer'] : [];
+  const canManage = (member: Member) => member.role !== 'owner' && assignableRoles.includes(member.role);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const { error: inviteError } = await supabase.from('shop_members').insert({
+      shop_id: shopId,
+      email: email.trim().toLowerCase(),
+      role,
+    });
+
+    if (inviteError) {
+      setError(
+        inviteError.code === '23505' ? `${email.trim()} is already a member or invited` : inviteError.message
+      );
+    } else {
+      setEmail('');
+      loadMembers();
+    }
+  };
+
+  const handleRoleChange = async (member: Member, newRole: ShopRole) => {
+    setError('');
+    const { error: updateError } = await supabase
+      .from('shop_members')
+      .update({ role: newRole })
+      .eq('id', member.id);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      loadMembers();
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    const leaving = member.user_id === user?.id;
+    if (!confirm(leaving ? 'Leave this shop? You will lose access to it.' : `Remove ${member.email} from this shop?`)) {
+      return;
+    }
+
+    setError('');
+    const { error: deleteError } = await supabase.from('shop_members').delete().eq('id', member.id);
+
+    if (deleteError) {
+      setError(deleteError.message);
+    } else if (leaving) {
+      onLeft();
+    } else {
+      loadMembers();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">Team</h3>
+            <p className="text-sm text-gray-600">People who can access this shop and what they can do</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : (
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Member</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Role</th>
+                <th className="py-2 px-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((member) => (
+                <tr key={member.id} className="border-b border-gray-100">
+                  <td className="py-2 px-3">
+                    <p className="font-medium text-gray-900">
+                      {member.email}
+                      {member.user_id === user?.id && <span className="text-gray-500 font-normal"> (you)</span>}
+                    </p>
+                    {!member.accepted_at && (
+                      <p className="text-xs text-yellow-700">Invitation pending</p>
+                    )}
+                  </td>
+                  <td className="py-2 px-3">
+                    {canManage(member) ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as ShopRole)}
+                        className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent capitalize"
+                      >
+                        {assignableRoles.map((value) => (
+                          <option key={value} value={value}>
+                            {value}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="capitalize text-gray-700">{member.role}</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-3 text-right">
+                    {member.role !== 'owner' && (canManage(member) || member.user_id === user?.id) && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                        title={member.user_id === user?.id ? 'Leave shop' : 'Remove member'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {assignableRoles.length > 0 && (
+          <form onSubmit={handleInvite} className="bg-gray-50 rounded-lg p-4 space-y-3">
+            <h4 className="font-semibold text-gray-900">Invite Someone</h4>
+            <div className="flex gap-3">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="name@example.com"
+                required
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as ShopRole)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent capitalize"
+              >
+                {assignableRoles.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+              >
+                <UserPlus className="w-4 h-4" />
+                Invite
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[role]}</p>
+            <p className="text-xs text-gray-500">
+              They get access the next time they sign in or sign up with this email address.
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Package, Wallet, TrendingUp, TrendingDown, AlertTriangle, Boxes } from 'lucide-react';
+import { comparePeriods, rankSellers, shiftDate, KpiSale, PeriodComparison, SellerRank } from '../utils/kpis';
+import { currencySymbol, todayIn } from '../utils/shopSettings';
+
+interface Product {
+  id: string;
+  name: string;
+  brand: string;
+  current_stock: number;
+  unit_price: number;
+}
+
+interface ShopOverviewProps {
+  shopId: string;
+  currency: string;
+  timezone: string;
+}
+
+const PERIOD_DAYS = 30;
+const SELLER_LIMIT = 5;
+const SALES_PAGE_SIZE = 1000;
+
+export default function ShopOverview({ shopId, currency, timezone }: ShopOverviewProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [period, setPeriod] = useState<PeriodComparison | null>(null);
+  const [sellers, setSellers] = useState<{ top: SellerRank[]; bottom: SellerRank[] }>({ top: [], bottom: [] });
+  const [highRiskCount, setHighRiskCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadOverview();
+  }, [shopId, timezone]);
+
+  const loadSales = async (since: string): Promise<KpiSale[]> => {
+    const sales: KpiSale[] = [];
+
+    for (let from = 0; ; from += SALES_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('sales_data')
+        .select('product_id, date, quantity_sold, revenue')
+        .eq('shop_id', shopId)
+        .gte('date', since)
+        .order('date')
+        .order('id')
+        .range(from, from + SALES_PAGE_SIZE - 1);
+
+      if (error) throw new Error(error.message);
+      sales.push(...(data ?? []));
+      if (!data || data.length < SALES_PAGE_SIZE) return sales;
+    }
+  };
+
+  const loadOverview = async () => {
+    setLoading(true);
+    const today = todayIn(timezone);
+    const periodStart = shiftDate(today, -(PERIOD_DAYS - 1));
+
+    try {
+      const [{ data: productData }, { count }, sales] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, name, brand, current_stock, unit_price')
+          .eq('shop_id', shopId),
+        supabase
+          .from('latest_product_forecasts')
+          .select('product_id', { count: 'exact', head: true })
+          .eq('shop_id', shopId)
+          .eq('risk_level', 'High'),
+        loadSales(shiftDate(periodStart, -PERIOD_DAYS)),
+      ]);
+
+      const shopProducts = productData ?? [];
+      setProducts(shopProducts);
+      setHighRiskCount(count ?? 0);
+      setPeriod(comparePeriods(sales, today, PERIOD_DAYS));
+      setSellers(
+        rankSellers(
+          sales,
+          shopProducts.map((p) => p.id),
+          periodStart,
+          SELLER_LIMIT
+        )
+      );
+    } catch {
+      setPeriod(null);
+    }
+    setLoading(false);
+  };
+
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const stockValue = products.reduce((sum, p) => sum + p.current_stock * Number(p.unit_price), 0);
+
+  const formatCurrency = (value: number) =>
+    `${currencySymbol(currency)}${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+  const renderChange = (change: number | null | undefined) => {
+    if (change === null || change === undefined) {
+      return <p className="text-sm text-gray-600 mt-1">No sales in the prior {PERIOD_DAYS} days</p>;
+    }
+    const Icon = change >= 0 ? TrendingUp : TrendingDown;
+    return (
+      <p
+        className={`flex items-center gap-1 text-sm mt-1 ${change >= 0 ? 'text-green-700' : 'text-red-700'}`}
+      >
+        <Icon className="w-4 h-4" />
+        {change >= 0 ? '+' : ''}
+        {change.toFixed(1)}% vs prior {PERIOD_DAYS} days
+      </p>
+    );
+  };
+
+  const renderSellers = (title: string, rows: SellerRank[], empty: string) => (
+    <div>
+      <h4 className="font-semibold text-gray-900 mb-3">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600">{empty}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.productId} className="border-b border-gray-100">
+                <td className="py-2 pr-3">
+                  <p className="font-medium text-gray-900">{productById.get(row.productId)?.name}</p>
+                  <p className="text-xs text-gray-500">{productById.get(row.productId)?.brand}</p>
+                </td>
+                <td className="py-2 px-3 text-right text-gray-900">{row.units} units</td>
+                <td className="py-2 pl-3 text-right text-gray-600">{formatCurrency(row.revenue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-6 rounded-xl">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="bg-blue-600 p-2 rounded-lg">
+              <Package className="w-5 h-5 text-white" />
+            </div>
+            <h3 className="font-semibold text-gray-900">Products</h3>
+          </div>
+          <p className="text-3xl font-bold text-blue-600">{products.length}</p>
+          <p className="text-sm text-gray-600 mt-1">Stock value {formatCurrency(stockValue)}</p>
+        </div>
+
+        <div className="bg-gradient-to-br from-green-50 to-green-100 p-6 rounded-xl">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="bg-green-600 p-2 rounded-lg">
+              <Wallet className="w-5 h-5 text-white" />
+            </div>
+            <h3 className="font-semibold text-gray-900">Revenue ({PERIOD_DAYS}d)</h3>
+          </div>
+          <p className="text-3xl font-bold text-green-600">{formatCurrency(period?.revenue ?? 0)}</p>
+          {renderChange(period?.revenueChange)}
+        </div>
+
+        <div className="bg-gradient-to-br from-orange-50 to-orange-100 p-6 rounded-xl">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="bg-orange-600 p-2 rounded-lg">
+              <Boxes className="w-5 h-5 text-white" />
+            </div>
+            <h3 className="font-semibold text-gray-900">Units Sold ({PERIOD_DAYS}d)</h3>
+          </div>
+          <p className="text-3xl font-bold text-orange-600">{(period?.units ?? 0).toLocaleString('en-IN')}</p>
+          {renderChange(period?.unitsChange)}
+        </div>
+
+        <div className="bg-gradient-to-br from-red-50 to-red-100 p-6 rounded-xl">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="bg-red-600 p-2 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-white" />
+            </div>
+            <h3 className="font-semibold text-gray-900">High Risk</h3>
+          </div>
+          <p className="text-3xl font-bold text-red-600">{highRiskCount}</p>
+          <p className="text-sm text-gray-600 mt-1">Products in their latest forecast</p>
+        </div>
+      </div>
+
+      {products.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderSellers('Top Sellers', sellers.top, `No sales in the last ${PERIOD_DAYS} days`)}
+          {renderSellers('Slowest Sellers', sellers.bottom, 'Not enough products to compare')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Settings, Archive, ArchiveRestore, Trash2, CheckCircle, AlertCircle } from 'lucide-react';
+import { SHOP_CATEGORIES, CURRENCIES, TIMEZONES, HORIZON_OPTIONS } from '../utils/shopSettings';
+
+interface Shop {
+  id: string;
+  name: string;
+  category: string;
+  location: string | null;
+  archived_at: string | null;
+  currency: string;
+  timezone: string;
+  default_horizon: number;
+}
+
+interface ShopSettingsProps {
+  shop: Shop | null;
+  archivedShops: Shop[];
+  onChanged: () => void;
+}
+
+type ShopRole = 'owner' | 'manager' | 'staff' | 'viewer';
+
+export default function ShopSettings({ shop, archivedShops, onChanged }: ShopSettingsProps) {
+  const { user } = useAuth();
+  const [roles, setRoles] = useState<Record<string, ShopRole>>({});
+  const [formData, setFormData] = useState({
+    name: '',
+    category: 'Stationery',
+    location: '',
+    currency: 'INR',
+    timezone: 'Asia/Kolkata',
+    default_horizon: 7,
+  });
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | null; message: string }>({
+    type: null,
+    message: '',
+  });
+
+  useEffect(() => {
+    if (shop) {
+      setFormData({
+        name: shop.name,
+        category: shop.category,
+        location: shop.location ?? '',
+        currency: shop.currency,
+        timezone: shop.timezone,
+        default_horizon: shop.default_horizon,
+      });
+    }
+    setDeleteConfirmation('');
+    setStatus({ type: null, message: '' });
+  }, [shop?.id]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [user?.id]);
+
+  const loadRoles = async () => {
+    if (!user) return;
+    const { data } = await supabase.from('shop_members').select('shop_id, role').eq('user_id', user.id);
+    setRoles(Object.fromEntries((data || []).map((member) => [member.shop_id, member.role])));
+  };
+
+  const canManage = (shopId: string) => roles[shopId] === 'owner' || roles[shopId] === 'manager';
+  const timezoneOptions =
+    shop && !TIMEZONES.includes(shop.timezone) ? [shop.timezone, ...TIMEZONES] : TIMEZONES;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shop) return;
+    setSaving(true);
+    setStatus({ type: null, message: '' });
+
+    const { error } = await supabase
+      .from('shops')
+      .update({
+        name: formData.name.trim(),
+        category: formData.category,
+        location: formData.location.trim() || null,
+        currency: formData.currency,
+        timezone: formData.timezone,
+        default_horizon: formData.default_horizon,
+      })
+      .eq('id', shop.id);
+
+    if (error) {
+      setStatus({ type: 'error', message: error.message });
+    } else {
+      setStatus({ type: 'success', message: 'Shop settings saved' });
+      onChanged();
+    }
+    setSaving(false);
+  };
+
+  const setArchived = async (target: Shop, archived: boolean) => {
+    if (archived && !confirm(`Archive ${target.name}? It will be hidden from the shop list until restored.`)) {
+      return;
+    }
+
+    setStatus({ type: null, message: '' });
+    const { error } = await supabase
+      .from('shops')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', target.id);
+
+    if (error) {
+      setStatus({ type: 'error', message: error.message });
+    } else {
+      onChanged();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!shop || deleteConfirmation !== shop.name) return;
+    setStatus({ type: null, message: '' });
+
+    const { error } = await supabase.from('shops').delete().eq('id', shop.id);
+
+    if (error) {
+      setStatus({ type: 'error', message: error.message });
+    } else {
+      onChanged();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {shop && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="bg-blue-100 p-3 rounded-lg">
+              <Settings className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Shop Settings</h2>
+              <p className="text-gray-600">Details and preferences for {shop.name}</p>
+            </div>
+          </div>
+
+          {status.type && (
+            <div
+              className={`flex items-center gap-2 px-4 py-3 rounded-lg text-sm mb-4 ${
+                status.type === 'success'
+                  ? 'bg-green-50 border border-green-200 text-green-700'
+                  : 'bg-red-50 border border-red-200 text-red-700'
+              }`}
+            >
+              {status.type === 'success' ? (
+                <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              )}
+              {status.message}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <fieldset disabled={!canManage(shop.id)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Shop Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                <select
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                >
+                  {SHOP_CATEGORIES.map((cat) => (
+                    <option key={cat} value={cat}>
+                      {cat}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Location (Optional)</label>
+                <input
+                  type="text"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  placeholder="City, State"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                >
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency.code} value={currency.code}>
+                      {currency.code} - {currency.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Time Zone</label>
+                <select
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                >
+                  {timezoneOptions.map((timezone) => (
+                    <option key={timezone} value={timezone}>
+                      {timezone}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Decides which day counts as today for sales entry</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Default Forecast Horizon</label>
+                <select
+                  value={formData.default_horizon}
+                  onChange={(e) => setFormData({ ...formData, default_horizon: parseInt(e.target.value) })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                >
+                  {HORIZON_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      {days} days
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </fieldset>
+
+            {canManage(shop.id) ? (
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </button>
+            ) : (
+              <p className="text-sm text-gray-600">Only owners and managers can change shop settings.</p>
+            )}
+          </form>
+        </div>
+      )}
+
+      {shop && canManage(shop.id) && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-1">Archive Shop</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Hides the shop from the shop list for everyone. Products, sales and forecasts are kept and the shop
+            can be restored at any time.
+          </p>
+          <button
+            onClick={() => setArchived(shop, true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+          >
+            <Archive className="w-4 h-4" />
+            Archive Shop
+          </button>
+        </div>
+      )}
+
+      {shop && roles[shop.id] === 'owner' && (
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-red-200">
+          <h3 className="text-lg font-bold text-red-700 mb-1">Delete Shop</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Permanently deletes the shop with all of its products, sales, forecasts, orders and stock history.
+            This cannot be undone. Type <span className="font-semibold text-gray-900">{shop.name}</span> to
+            confirm.
+          </p>
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={deleteConfirmation}
+              onChange={(e) => setDeleteConfirmation(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              placeholder={shop.name}
+            />
+            <button
+              onClick={handleDelete}
+              disabled={deleteConfirmation !== shop.name}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete Permanently
+            </button>
+          </div>
+        </div>
+      )}
+
+      {archivedShops.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">Archived Shops</h3>
+          <table className="w-full text-sm">
+            <tbody>
+              {archivedShops.map((archived) => (
+                <tr key={archived.id} className="border-b border-gray-100 last:border-0">
+                  <td className="py-2 pr-3">
+                    <p className="font-medium text-gray-900">{archived.name}</p>
+                    <p className="text-xs text-gray-500">{archived.category}</p>
+                  </td>
+                  <td className="py-2 px-3 text-gray-600">
+                    Archived{' '}
+                    {archived.archived_at &&
+                      new Date(archived.archived_at).toLocaleDateString('en-IN', {
+                        day: 'numeric',
+                        month: 'short',
+                        year: 'numeric',
+                      })}
+                  </td>
+                  <td className="py-2 pl-3 text-right">
+                    {canManage(archived.id) && (
+                      <button
+                        onClick={() => setArchived(archived, false)}
+                        className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded transition"
+                      >
+                        <ArchiveRestore className="w-4 h-4" />
+                        Restore
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
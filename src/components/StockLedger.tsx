@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { X, ClipboardList } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  StockMovementType,
+  STOCK_MOVEMENT_LABELS,
+  MANUAL_MOVEMENT_TYPES,
+  signedQuantity,
+  buildStockHistory,
+} from '../utils/stockLedger';
+
+interface Product {
+  id: string;
+  name: string;
+  current_stock: number;
+}
+
+interface Transaction {
+  id: string;
+  type: StockMovementType;
+  quantity: number;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface StockLedgerProps {
+  shopId: string;
+  product: Product;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+const PAGE_SIZE = 1000;
+const RECENT_LIMIT = 50;
+
+export default function StockLedger({ shopId, product, onClose, onRecorded }: StockLedgerProps) {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [currentStock, setCurrentStock] = useState(product.current_stock);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [type, setType] = useState<StockMovementType>('receipt');
+  const [quantity, setQuantity] = useState(0);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    loadTransactions();
+  }, [product.id]);
+
+  const loadTransactions = async () => {
+    setLoading(true);
+    const all: Transaction[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error: loadError } = await supabase
+        .from('inventory_transactions')
+        .select('id, type, quantity, note, created_by, created_at')
+        .eq('product_id', product.id)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (loadError) {
+        setError(loadError.message);
+        break;
+      }
+      all.push(...(data ?? []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    setTransactions(all);
+    setCurrentStock(all.reduce((sum, t) => sum + t.quantity, 0));
+    setLoading(false);
+  };
+
+  // Adjustments are entered as the counted stock level and posted as the difference
+  const delta = type === 'adjustment' ? quantity - currentStock : signedQuantity(type, quantity);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (delta === 0) {
+      setError(type === 'adjustment' ? 'Counted stock matches the ledger' : 'Enter a quantity');
+      return;
+    }
+
+    setSaving(true);
+    const { error: insertError } = await supabase.from('inventory_transactions').insert({
+      shop_id: shopId,
+      product_id: product.id,
+      type,
+      quantity: delta,
+      note: note.trim() || null,
+    });
+    setSaving(false);
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+
+    setQuantity(0);
+    setNote('');
+    await loadTransactions();
+    onRecorded();
+  };
+
+  const history = buildStockHistory(transactions);
+  const recent = transactions.slice(-RECENT_LIMIT).reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{product.name}</h3>
+            <p className="text-sm text-gray-600">{currentStock} units in stock</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {history.length > 1 && (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={history}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value) =>
+                      new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                    }
+                  />
+                  <YAxis />
+                  <Tooltip labelFormatter={(value) => new Date(value).toLocaleDateString()} />
+                  <Line type="stepAfter" dataKey="stock" stroke="#3B82F6" strokeWidth={2} dot={false} name="Stock" />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4">
+              <h4 className="font-semibold text-gray-900">Record Stock Movement</h4>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                  <select
+                    value={type}
+                    onChange={(e) => {
+                      const next = e.target.value as StockMovementType;
+                      setType(next);
+                      setQuantity(next === 'adjustment' ? currentStock : 0);
+                    }}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {MANUAL_MOVEMENT_TYPES.map((value) => (
+                      <option key={value} value={value}>
+                        {STOCK_MOVEMENT_LABELS[value]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {type === 'adjustment' ? 'Counted Stock' : 'Quantity'}
+                  </label>
+                  <input
+                    type="number"
+                    value={quantity}
+                    onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    min="0"
+                    required
+                  />
+                  {type === 'adjustment' && delta !== 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Posts {delta > 0 ? '+' : ''}
+                      {delta} units
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Optional, e.g., invoice number or reason"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+              >
+                {saving ? 'Recording...' : 'Record Movement'}
+              </button>
+            </form>
+
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <ClipboardList className="w-5 h-5 text-blue-600" />
+                <h4 className="font-semibold text-gray-900">Stock Movements</h4>
+              </div>
+              {recent.length === 0 ? (
+                <p className="text-sm text-gray-600">No stock movements recorded yet</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 px-3 font-semibold text-gray-700">When</th>
+                      <th className="text-left py-2 px-3 font-semibold text-gray-700">Type</th>
+                      <th className="text-right py-2 px-3 font-semibold text-gray-700">Change</th>
+                      <th className="text-left py-2 px-3 font-semibold text-gray-700">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recent.map((transaction) => (
+                      <tr key={transaction.id} className="border-b border-gray-100">
+                        <td className="py-2 px-3 whitespace-nowrap">
+                          {new Date(transaction.created_at).toLocaleString('en-IN', {
+                            day: 'numeric',
+                            month: 'short',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                          <span className="block text-xs text-gray-500">
+                            {transaction.created_by === user?.id ? 'by you' : 'by another user'}
+                          </span>
+                        </td>
+                        <td className="py-2 px-3">{STOCK_MOVEMENT_LABELS[transaction.type]}</td>
+                        <td
+                          className={`py-2 px-3 text-right font-medium ${
+                            transaction.quantity > 0 ? 'text-green-600' : 'text-red-600'
+                          }`}
+                        >
+                          {transaction.quantity > 0 ? '+' : ''}
+                          {transaction.quantity}
+                        </td>
+                        <td className="py-2 px-3 text-gray-600">{transaction.note ?? '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
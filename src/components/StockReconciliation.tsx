@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Scale, Check } from 'lucide-react';
+
+interface ReconciliationRow {
+  product_id: string;
+  name: string;
+  brand: string;
+  ledger_stock: number;
+  count_id: string | null;
+  counted_quantity: number | null;
+  ledger_quantity: number | null;
+  variance: number | null;
+  adjustment_id: string | null;
+  counted_at: string | null;
+}
+
+interface StockReconciliationProps {
+  shopId: string;
+  onAdjusted: () => void;
+}
+
+export default function StockReconciliation({ shopId, onAdjusted }: StockReconciliationProps) {
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [postSalesFrom, setPostSalesFrom] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [reconciling, setReconciling] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [shopId]);
+
+  const loadReconciliation = async () => {
+    setLoading(true);
+    const [{ data: rowData }, { data: shopData }] = await Promise.all([
+      supabase
+        .from('stock_reconciliation')
+        .select(
+          'product_id, name, brand, ledger_stock, count_id, counted_quantity, ledger_quantity, variance, adjustment_id, counted_at'
+        )
+        .eq('shop_id', shopId)
+        .order('name'),
+      supabase.from('shops').select('post_sales_from').eq('id', shopId).maybeSingle(),
+    ]);
+
+    if (rowData) setRows(rowData);
+    setPostSalesFrom(shopData?.post_sales_from ?? null);
+    setLoading(false);
+  };
+
+  const togglePosting = async (enabled: boolean) => {
+    setError('');
+    const value = enabled ? new Date().toISOString().split('T')[0] : null;
+    const { error: updateError } = await supabase
+      .from('shops')
+      .update({ post_sales_from: value })
+      .eq('id', shopId);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      setPostSalesFrom(value);
+    }
+  };
+
+  const saveCounts = async () => {
+    const entries = Object.entries(counts).filter(([, value]) => value.trim() !== '');
+    if (entries.length === 0) return;
+
+    setError('');
+    setSaving(true);
+    const { error: insertError } = await supabase.from('stock_counts').insert(
+      entries.map(([productId, value]) => ({
+        shop_id: shopId,
+        product_id: productId,
+        counted_quantity: Math.max(0, parseInt(value) || 0),
+      }))
+    );
+    setSaving(false);
+
+    if (insertError) {
+      setError(insertError.message);
+    } else {
+      setCounts({});
+      loadReconciliation();
+    }
+  };
+
+  const reconcile = async (row: ReconciliationRow) => {
+    if (!row.count_id) return;
+
+    setError('');
+    setReconciling(row.count_id);
+    const { error: rpcError } = await supabase.rpc('reconcile_stock_count', { p_count_id: row.count_id });
+    setReconciling(null);
+
+    if (rpcError) {
+      setError(rpcError.message);
+    } else {
+      await loadReconciliation();
+      onAdjusted();
+    }
+  };
+
+  const hasOpenVariance = (row: ReconciliationRow) => !!row.variance && !row.adjustment_id;
+  const visibleRows = onlyDifferences ? rows.filter(hasOpenVariance) : rows;
+  const openVariances = rows.filter(hasOpenVariance).length;
+  const pendingCounts = Object.values(counts).filter((value) => value.trim() !== '').length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-100 p-2 rounded-lg">
+            <Scale className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">Stock Reconciliation</h3>
+            <p className="text-sm text-gray-600">
+              Enter shelf counts and compare them with the stock ledger
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={saveCounts}
+          disabled={saving || pendingCounts === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : `Save Counts${pendingCounts > 0 ? ` (${pendingCounts})` : ''}`}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 mb-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={postSalesFrom !== null}
+            onChange={(e) => togglePosting(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Deduct recorded sales from stock
+          {postSalesFrom && (
+            <span className="text-gray-500">
+              (sales dated from {new Date(postSalesFrom).toLocaleDateString()})
+            </span>
+          )}
+        </label>
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Only show differences ({openVariances})
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : visibleRows.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          {onlyDifferences ? 'Every counted product matches the ledger' : 'No products yet'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Product</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Ledger Stock</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">Last Count</th>
+                <th className="text-right py-2 px-3 font-semibold text-gray-700">Difference</th>
+                <th className="text-left py-2 px-3 font-semibold text-gray-700">New Count</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => (
+                <tr
+                  key={row.product_id}
+                  className={`border-b border-gray-100 ${hasOpenVariance(row) ? 'bg-red-50' : ''}`}
+                >
+                  <td className="py-2 px-3">
+                    <p className="font-medium text-gray-900">{row.name}</p>
+                    <p className="text-xs text-gray-500">{row.brand}</p>
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-900">{row.ledger_stock}</td>
+                  <td className="py-2 px-3 text-gray-600">
+                    {row.counted_at ? (
+                      <>
+                        {row.counted_quantity} units
+                        <span className="block text-xs text-gray-500">
+                          {new Date(row.counted_at).toLocaleDateString()} · ledger was {row.ledger_quantity}
+                        </span>
+                      </>
+                    ) : (
+                      'Never counted'
+                    )}
+                  </td>
+                  <td className="py-2 px-3 text-right">
+                    {row.variance === null ? (
+                      '-'
+                    ) : row.variance === 0 ? (
+                      <span className="text-green-600">Matches</span>
+                    ) : row.adjustment_id ? (
+                      <span className="inline-flex items-center gap-1 text-gray-500">
+                        <Check className="w-4 h-4" />
+                        {row.variance > 0 ? '+' : ''}
+                        {row.variance} adjusted
+                      </span>
+                    ) : (
+                      <div className="flex items-center justify-end gap-2">
+                        <span className="font-semibold text-red-600">
+                          {row.variance > 0 ? '+' : ''}
+                          {row.variance}
+                        </span>
+                        <button
+                          onClick={() => reconcile(row)}
+                          disabled={reconciling !== null}
+                          className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition disabled:opacity-50"
+                        >
+                          {reconciling === row.count_id ? 'Adjusting...' : 'Adjust Ledger'}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 px-3">
+                    <input
+                      type="number"
+                      min="0"
+                      value={counts[row.product_id] ?? ''}
+                      onChange={(e) => setCounts({ ...counts, [row.product_id]: e.target.value })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Count"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,485 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { ArrowLeftRight, ArrowRight, Plus, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { productMatchKey } from '../utils/consolidation';
+
+type TransferStatus = 'pending' | 'completed' | 'cancelled';
+
+interface Shop {
+  id: string;
+  name: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  brand: string;
+  barcode: string | null;
+  current_stock: number;
+}
+
+interface TransferItem {
+  id: string;
+  from_product_id: string;
+  to_product_id: string;
+  quantity: number;
+  from_product: { name: string; brand: string } | null;
+}
+
+interface Transfer {
+  id: string;
+  from_shop_id: string;
+  to_shop_id: string;
+  status: TransferStatus;
+  note: string | null;
+  created_at: string;
+  completed_at: string | null;
+  stock_transfer_items: TransferItem[];
+}
+
+interface TransferLine {
+  fromProductId: string;
+  toProductId: string;
+  quantity: number;
+}
+
+interface StockTransfersProps {
+  shopId: string;
+  shops: Shop[];
+}
+
+const statusStyles: Record<TransferStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function StockTransfers({ shopId, shops }: StockTransfersProps) {
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [shopProducts, setShopProducts] = useState<Product[]>([]);
+  const [fromShopId, setFromShopId] = useState(shopId);
+  const [toShopId, setToShopId] = useState('');
+  const [fromProducts, setFromProducts] = useState<Product[]>([]);
+  const [toProducts, setToProducts] = useState<Product[]>([]);
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [note, setNote] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [productFilter, setProductFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFromShopId(shopId);
+    setToShopId(shops.find((shop) => shop.id !== shopId)?.id ?? '');
+    setProductFilter('');
+    loadTransfers();
+  }, [shopId]);
+
+  useEffect(() => {
+    setLines([]);
+    loadProducts(fromShopId).then(setFromProducts);
+  }, [fromShopId]);
+
+  useEffect(() => {
+    setLines([]);
+    loadProducts(toShopId).then(setToProducts);
+  }, [toShopId]);
+
+  const loadProducts = async (id: string): Promise<Product[]> => {
+    if (!id) return [];
+    const { data } = await supabase
+      .from('products')
+      .select('id, name, brand, barcode, current_stock')
+      .eq('shop_id', id)
+      .order('name');
+    return data || [];
+  };
+
+  const loadTransfers = async () => {
+    setLoading(true);
+    const [{ data: transferData }, products] = await Promise.all([
+      supabase
+        .from('stock_transfers')
+        .select(
+          'id, from_shop_id, to_shop_id, status, note, created_at, completed_at, stock_transfer_items(id, from_product_id, to_product_id, quantity, from_product:from_product_id(name, brand))'
+        )
+        .or(`from_shop_id.eq.${shopId},to_shop_id.eq.${shopId}`)
+        .order('created_at', { ascending: false }),
+      loadProducts(shopId),
+    ]);
+
+    setTransfers((transferData as Transfer[] | null) || []);
+    setShopProducts(products);
+    setLoading(false);
+  };
+
+  const shopName = (id: string) => shops.find((shop) => shop.id === id)?.name ?? 'Archived shop';
+  const fromProductById = new Map(fromProducts.map((product) => [product.id, product]));
+  const availableProducts = fromProducts.filter(
+    (product) => product.current_stock > 0 && !lines.some((line) => line.fromProductId === product.id)
+  );
+
+  const addLine = (productId: string) => {
+    const product = fromProductById.get(productId);
+    if (!product) return;
+    const match = toProducts.find((candidate) => productMatchKey(candidate) === productMatchKey(product));
+    setLines([...lines, { fromProductId: product.id, toProductId: match?.id ?? '', quantity: 1 }]);
+  };
+
+  const updateLine = (index: number, changes: Partial<TransferLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const resetForm = () => {
+    setLines([]);
+    setNote('');
+    setShowForm(false);
+  };
+
+  const handleCreate = async () => {
+    setError('');
+    const invalid = lines.find(
+      (line) =>
+        !line.toProductId ||
+        line.quantity < 1 ||
+        line.quantity > (fromProductById.get(line.fromProductId)?.current_stock ?? 0)
+    );
+    if (invalid) {
+      setError(
+        `${fromProductById.get(invalid.fromProductId)?.name}: choose the destination product and a quantity up to the stock on hand`
+      );
+      return;
+    }
+
+    setSaving('new');
+    const { data: transfer, error: transferError } = await supabase
+      .from('stock_transfers')
+      .insert({ from_shop_id: fromShopId, to_shop_id: toShopId, note: note.trim() || null })
+      .select('id')
+      .single();
+
+    if (transferError) {
+      setError(transferError.message);
+    } else {
+      const { error: itemsError } = await supabase.from('stock_transfer_items').insert(
+        lines.map((line) => ({
+          transfer_id: transfer.id,
+          from_product_id: line.fromProductId,
+          to_product_id: line.toProductId,
+          quantity: line.quantity,
+        }))
+      );
+
+      if (itemsError) {
+        await supabase.from('stock_transfers').delete().eq('id', transfer.id);
+        setError(itemsError.message);
+      } else {
+        resetForm();
+        await loadTransfers();
+      }
+    }
+    setSaving(null);
+  };
+
+  const completeTransfer = async (transfer: Transfer) => {
+    setSaving(transfer.id);
+    setError('');
+    const { error: completeError } = await supabase.rpc('complete_stock_transfer', {
+      p_transfer_id: transfer.id,
+    });
+    if (completeError) setError(completeError.message);
+    await loadTransfers();
+    loadProducts(fromShopId).then(setFromProducts);
+    loadProducts(toShopId).then(setToProducts);
+    setSaving(null);
+  };
+
+  const cancelTransfer = async (transfer: Transfer) => {
+    if (!confirm('Cancel this transfer? No stock will be moved.')) return;
+    setError('');
+    const { error: cancelError } = await supabase
+      .from('stock_transfers')
+      .update({ status: 'cancelled' })
+      .eq('id', transfer.id);
+    if (cancelError) setError(cancelError.message);
+    loadTransfers();
+  };
+
+  const visibleTransfers = productFilter
+    ? transfers.filter((transfer) =>
+        transfer.stock_transfer_items.some(
+          (item) => item.from_product_id === productFilter || item.to_product_id === productFilter
+        )
+      )
+    : transfers;
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('en-IN', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-3 rounded-lg">
+              <ArrowLeftRight className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Stock Transfers</h2>
+              <p className="text-gray-600">Move stock between your shops</p>
+            </div>
+          </div>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+            >
+              <Plus className="w-5 h-5" />
+              New Transfer
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {showForm && (
+          <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                <select
+                  value={fromShopId}
+                  onChange={(e) => {
+                    setFromShopId(e.target.value);
+                    if (e.target.value === toShopId) setToShopId(fromShopId);
+                  }}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {shops.map((shop) => (
+                    <option key={shop.id} value={shop.id}>
+                      {shop.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+                <select
+                  value={toShopId}
+                  onChange={(e) => setToShopId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {shops
+                    .filter((shop) => shop.id !== fromShopId)
+                    .map((shop) => (
+                      <option key={shop.id} value={shop.id}>
+                        {shop.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+
+            {lines.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700">Product</th>
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700">Arrives As</th>
+                    <th className="text-right py-2 px-3 font-semibold text-gray-700">Quantity</th>
+                    <th className="py-2 px-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line, index) => {
+                    const product = fromProductById.get(line.fromProductId);
+                    return (
+                      <tr key={line.fromProductId} className="border-b border-gray-100">
+                        <td className="py-2 px-3">
+                          <p className="font-medium text-gray-900">{product?.name}</p>
+                          <p className="text-xs text-gray-500">{product?.current_stock} in stock</p>
+                        </td>
+                        <td className="py-2 px-3">
+                          <select
+                            value={line.toProductId}
+                            onChange={(e) => updateLine(index, { toProductId: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">Choose a product in {shopName(toShopId)}</option>
+                            {toProducts.map((candidate) => (
+                              <option key={candidate.id} value={candidate.id}>
+                                {candidate.name} ({candidate.brand})
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 px-3 text-right">
+                          <input
+                            type="number"
+                            min="1"
+                            max={product?.current_stock}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </td>
+                        <td className="py-2 px-3 text-right">
+                          <button
+                            onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <select
+                value=""
+                onChange={(e) => addLine(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Add a product from {shopName(fromShopId)}...</option>
+                {availableProducts.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name} ({product.brand}) - {product.current_stock} in stock
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Note (optional)"
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Stock moves when the transfer is completed. Products are matched by barcode, or by name and brand.
+            </p>
+
+            <div className="flex gap-3">
+              <button
+                onClick={resetForm}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={lines.length === 0 || !toShopId || saving === 'new'}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving === 'new' ? 'Creating...' : 'Create Transfer'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900">Transfer History</h3>
+          <select
+            value={productFilter}
+            onChange={(e) => setProductFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All products</option>
+            {shopProducts.map((product) => (
+              <option key={product.id} value={product.id}>
+                {product.name} ({product.brand})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : visibleTransfers.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {productFilter ? 'This product has not been transferred' : 'No transfers yet'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {visibleTransfers.map((transfer) => (
+              <div key={transfer.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <p className="flex items-center gap-2 font-semibold text-gray-900">
+                      {shopName(transfer.from_shop_id)}
+                      <ArrowRight className="w-4 h-4 text-gray-400" />
+                      {shopName(transfer.to_shop_id)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Created {formatTime(transfer.created_at)}
+                      {transfer.completed_at && `, completed ${formatTime(transfer.completed_at)}`}
+                      {transfer.note && ` · ${transfer.note}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${statusStyles[transfer.status]}`}
+                    >
+                      {transfer.status}
+                    </span>
+                    {transfer.status === 'pending' && (
+                      <>
+                        <button
+                          onClick={() => completeTransfer(transfer)}
+                          disabled={saving === transfer.id}
+                          className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-green-700 hover:bg-green-50 rounded transition disabled:opacity-50"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          {saving === transfer.id ? 'Completing...' : 'Complete'}
+                        </button>
+                        <button
+                          onClick={() => cancelTransfer(transfer)}
+                          className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded transition"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          Cancel
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {transfer.stock_transfer_items.map((item) => (
+                      <tr key={item.id} className="border-t border-gray-100">
+                        <td className="py-2 pr-3">
+                          <span className="font-medium text-gray-900">{item.from_product?.name}</span>
+                          <span className="text-gray-500"> {item.from_product?.brand}</span>
+                        </td>
+                        <td className="py-2 pl-3 text-right text-gray-900">{item.quantity} units</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Plus, Edit, Trash2, X, Truck } from 'lucide-react';
+
+interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  lead_time_days: number;
+  products: { count: number }[];
+}
+
+interface SupplierManagementProps {
+  shopId: string;
+}
+
+const EMPTY_FORM = { name: '', contact_name: '', phone: '', lead_time_days: 7 };
+
+export default function SupplierManagement({ shopId }: SupplierManagementProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, [shopId]);
+
+  const loadSuppliers = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('id, name, contact_name, phone, lead_time_days, products(count)')
+      .eq('shop_id', shopId)
+      .order('name');
+
+    if (!error && data) {
+      setSuppliers(data);
+    }
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const values = {
+      name: formData.name.trim(),
+      contact_name: formData.contact_name.trim() || null,
+      phone: formData.phone.trim() || null,
+      lead_time_days: formData.lead_time_days,
+    };
+
+    const { error: saveError } = editingSupplier
+      ? await supabase.from('suppliers').update(values).eq('id', editingSupplier.id)
+      : await supabase.from('suppliers').insert({ ...values, shop_id: shopId });
+
+    if (saveError) {
+      setError(saveError.message);
+    } else {
+      loadSuppliers();
+      closeModal();
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (confirm(`Delete ${supplier.name}? Its products will keep their own lead time.`)) {
+      await supabase.from('suppliers').delete().eq('id', supplier.id);
+      loadSuppliers();
+    }
+  };
+
+  const openModal = (supplier?: Supplier) => {
+    setError('');
+    if (supplier) {
+      setEditingSupplier(supplier);
+      setFormData({
+        name: supplier.name,
+        contact_name: supplier.contact_name ?? '',
+        phone: supplier.phone ?? '',
+        lead_time_days: supplier.lead_time_days,
+      });
+    } else {
+      setEditingSupplier(null);
+      setFormData(EMPTY_FORM);
+    }
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingSupplier(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Suppliers</h2>
+            <p className="text-gray-600">
+              Distributors you buy from and how long their deliveries take
+            </p>
+          </div>
+          <button
+            onClick={() => openModal()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+          >
+            <Plus className="w-5 h-5" />
+            Add Supplier
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : suppliers.length === 0 ? (
+          <div className="text-center py-12">
+            <Truck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No suppliers yet</h3>
+            <p className="text-gray-600">
+              Add suppliers, then link products to them to use their lead time and pack sizes
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Supplier</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Contact</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Lead Time</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Products</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {suppliers.map((supplier) => (
+                  <tr key={supplier.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 font-medium text-gray-900">{supplier.name}</td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {[supplier.contact_name, supplier.phone].filter(Boolean).join(' · ') || '-'}
+                    </td>
+                    <td className="py-3 px-4 text-gray-900">{supplier.lead_time_days} days</td>
+                    <td className="py-3 px-4 text-gray-900">{supplier.products[0]?.count ?? 0}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => openModal(supplier)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded transition"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(supplier)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingSupplier ? 'Edit Supplier' : 'Add Supplier'}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600 transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Supplier Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g., Sri Lakshmi Distributors"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Contact Person</label>
+                  <input
+                    type="text"
+                    value={formData.contact_name}
+                    onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Lead Time (days)</label>
+                <input
+                  type="number"
+                  value={formData.lead_time_days}
+                  onChange={(e) =>
+                    setFormData({ ...formData, lead_time_days: parseInt(e.target.value) || 0 })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  min="0"
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+                >
+                  {editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,12 @@ export interface Database {
           name: string;
           category: string;
           location: string | null;
+          import_mapping: Record<string, string> | null;
+          post_sales_from: string | null;
+          archived_at: string | null;
+          currency: string;
+          timezone: string;
+          default_horizon: number;
           created_at: string;
           updated_at: string;
         };
@@ -28,6 +34,12 @@ export interface Database {
           name: string;
           category: string;
           location?: string | null;
+          import_mapping?: Record<string, string> | null;
+          post_sales_from?: string | null;
+          archived_at?: string | null;
+          currency?: string;
+          timezone?: string;
+          default_horizon?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -37,6 +49,12 @@ export interface Database {
           name?: string;
           category?: string;
           location?: string | null;
+          import_mapping?: Record<string, string> | null;
+          post_sales_from?: string | null;
+          archived_at?: string | null;
+          currency?: string;
+          timezone?: string;
+          default_horizon?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -50,6 +68,14 @@ export interface Database {
           brand: string;
           current_stock: number;
           unit_price: number;
+          lead_time_days: number;
+          service_level: number;
+          gap_fill: 'zero' | 'interpolate';
+          supplier_id: string | null;
+          minimum_order_quantity: number;
+          case_pack_size: number;
+          cost_price: number;
+          barcode: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -61,6 +87,14 @@ export interface Database {
           brand: string;
           current_stock?: number;
           unit_price?: number;
+          lead_time_days?: number;
+          service_level?: number;
+          gap_fill?: 'zero' | 'interpolate';
+          supplier_id?: string | null;
+          minimum_order_quantity?: number;
+          case_pack_size?: number;
+          cost_price?: number;
+          barcode?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -72,6 +106,14 @@ export interface Database {
           brand?: string;
           current_stock?: number;
           unit_price?: number;
+          lead_time_days?: number;
+          service_level?: number;
+          gap_fill?: 'zero' | 'interpolate';
+          supplier_id?: string | null;
+          minimum_order_quantity?: number;
+          case_pack_size?: number;
+          cost_price?: number;
+          barcode?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -85,6 +127,7 @@ export interface Database {
           quantity_sold: number;
           revenue: number;
           is_festival: boolean;
+          batch_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -95,6 +138,7 @@ export interface Database {
           quantity_sold: number;
           revenue?: number;
           is_festival?: boolean;
+          batch_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -105,6 +149,7 @@ export interface Database {
           quantity_sold?: number;
           revenue?: number;
           is_festival?: boolean;
+          batch_id?: string | null;
           created_at?: string;
         };
       };
@@ -117,9 +162,13 @@ export interface Database {
           predicted_demand: number;
           recommended_stock: number;
           safety_stock: number;
+          reorder_point: number;
+          economic_order_quantity: number;
           risk_level: string;
           model_used: string;
           confidence_score: number;
+          run_id: string;
+          horizon_days: number;
           created_at: string;
         };
         Insert: {
@@ -130,9 +179,13 @@ export interface Database {
           predicted_demand: number;
           recommended_stock: number;
           safety_stock: number;
+          reorder_point?: number;
+          economic_order_quantity?: number;
           risk_level: string;
           model_used: string;
           confidence_score?: number;
+          run_id?: string;
+          horizon_days?: number;
           created_at?: string;
         };
         Update: {
@@ -143,12 +196,424 @@ export interface Database {
           predicted_demand?: number;
           recommended_stock?: number;
           safety_stock?: number;
+          reorder_point?: number;
+          economic_order_quantity?: number;
           risk_level?: string;
           model_used?: string;
           confidence_score?: number;
+          run_id?: string;
+          horizon_days?: number;
           created_at?: string;
         };
       };
+      festival_calendar: {
+        Row: {
+          id: string;
+          shop_id: string;
+          name: string;
+          date: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          name: string;
+          date: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          name?: string;
+          date?: string;
+          created_at?: string;
+        };
+      };
+      import_batches: {
+        Row: {
+          id: string;
+          shop_id: string;
+          uploaded_by: string | null;
+          file_name: string;
+          product_ids: string[];
+          inserted_rows: number;
+          updated_rows: number;
+          skipped_rows: number;
+          rejected_rows: number;
+          replaced_rows: Record<string, unknown>[];
+          rolled_back_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          uploaded_by?: string | null;
+          file_name: string;
+          product_ids?: string[];
+          inserted_rows?: number;
+          updated_rows?: number;
+          skipped_rows?: number;
+          rejected_rows?: number;
+          replaced_rows?: Record<string, unknown>[];
+          rolled_back_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          uploaded_by?: string | null;
+          file_name?: string;
+          product_ids?: string[];
+          inserted_rows?: number;
+          updated_rows?: number;
+          skipped_rows?: number;
+          rejected_rows?: number;
+          replaced_rows?: Record<string, unknown>[];
+          rolled_back_at?: string | null;
+          created_at?: string;
+        };
+      };
+      purchase_orders: {
+        Row: {
+          id: string;
+          shop_id: string;
+          supplier: string;
+          supplier_id: string | null;
+          status: 'draft' | 'sent' | 'received';
+          notes: string | null;
+          sent_at: string | null;
+          received_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          supplier: string;
+          supplier_id?: string | null;
+          status?: 'draft' | 'sent' | 'received';
+          notes?: string | null;
+          sent_at?: string | null;
+          received_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          supplier?: string;
+          supplier_id?: string | null;
+          status?: 'draft' | 'sent' | 'received';
+          notes?: string | null;
+          sent_at?: string | null;
+          received_at?: string | null;
+          created_at?: string;
+        };
+      };
+      purchase_order_items: {
+        Row: {
+          id: string;
+          purchase_order_id: string;
+          product_id: string;
+          quantity: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          purchase_order_id: string;
+          product_id: string;
+          quantity: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          purchase_order_id?: string;
+          product_id?: string;
+          quantity?: number;
+          created_at?: string;
+        };
+      };
+      suppliers: {
+        Row: {
+          id: string;
+          shop_id: string;
+          name: string;
+          contact_name: string | null;
+          phone: string | null;
+          lead_time_days: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          name: string;
+          contact_name?: string | null;
+          phone?: string | null;
+          lead_time_days?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          name?: string;
+          contact_name?: string | null;
+          phone?: string | null;
+          lead_time_days?: number;
+          created_at?: string;
+        };
+      };
+      inventory_transactions: {
+        Row: {
+          id: string;
+          shop_id: string;
+          product_id: string;
+          type: 'sale' | 'receipt' | 'adjustment' | 'return' | 'damage' | 'transfer_out' | 'transfer_in';
+          quantity: number;
+          note: string | null;
+          purchase_order_id: string | null;
+          stock_transfer_id: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          product_id: string;
+          type: 'sale' | 'receipt' | 'adjustment' | 'return' | 'damage' | 'transfer_out' | 'transfer_in';
+          quantity: number;
+          note?: string | null;
+          purchase_order_id?: string | null;
+          stock_transfer_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          product_id?: string;
+          type?: 'sale' | 'receipt' | 'adjustment' | 'return' | 'damage' | 'transfer_out' | 'transfer_in';
+          quantity?: number;
+          note?: string | null;
+          purchase_order_id?: string | null;
+          stock_transfer_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      stock_counts: {
+        Row: {
+          id: string;
+          shop_id: string;
+          product_id: string;
+          counted_quantity: number;
+          ledger_quantity: number;
+          adjustment_id: string | null;
+          counted_by: string | null;
+          counted_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          product_id: string;
+          counted_quantity: number;
+          ledger_quantity?: number;
+          adjustment_id?: string | null;
+          counted_by?: string | null;
+          counted_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          product_id?: string;
+          counted_quantity?: number;
+          ledger_quantity?: number;
+          adjustment_id?: string | null;
+          counted_by?: string | null;
+          counted_at?: string;
+        };
+      };
+      alert_rules: {
+        Row: {
+          id: string;
+          shop_id: string;
+          rule: 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+          enabled: boolean;
+          threshold: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          rule: 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+          enabled?: boolean;
+          threshold?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          rule?: 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+          enabled?: boolean;
+          threshold?: number;
+          created_at?: string;
+        };
+      };
+      alerts: {
+        Row: {
+          id: string;
+          shop_id: string;
+          product_id: string;
+          rule: 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+          run_id: string;
+          message: string;
+          acknowledged_at: string | null;
+          acknowledged_by: string | null;
+          snoozed_until: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          product_id: string;
+          rule: 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+          run_id: string;
+          message: string;
+          acknowledged_at?: string | null;
+          acknowledged_by?: string | null;
+          snoozed_until?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          product_id?: string;
+          rule?: 'below_reorder_point' | 'high_risk' | 'forecast_drop';
+          run_id?: string;
+          message?: string;
+          acknowledged_at?: string | null;
+          acknowledged_by?: string | null;
+          snoozed_until?: string | null;
+          created_at?: string;
+        };
+      };
+      shop_members: {
+        Row: {
+          id: string;
+          shop_id: string;
+          user_id: string | null;
+          email: string;
+          role: 'owner' | 'manager' | 'staff' | 'viewer';
+          invited_by: string | null;
+          accepted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          user_id?: string | null;
+          email: string;
+          role: 'owner' | 'manager' | 'staff' | 'viewer';
+          invited_by?: string | null;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          user_id?: string | null;
+          email?: string;
+          role?: 'owner' | 'manager' | 'staff' | 'viewer';
+          invited_by?: string | null;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+      };
+      stock_transfers: {
+        Row: {
+          id: string;
+          from_shop_id: string;
+          to_shop_id: string;
+          status: 'pending' | 'completed' | 'cancelled';
+          note: string | null;
+          created_by: string | null;
+          created_at: string;
+          completed_by: string | null;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          from_shop_id: string;
+          to_shop_id: string;
+          status?: 'pending' | 'completed' | 'cancelled';
+          note?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          completed_by?: string | null;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          from_shop_id?: string;
+          to_shop_id?: string;
+          status?: 'pending' | 'completed' | 'cancelled';
+          note?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          completed_by?: string | null;
+          completed_at?: string | null;
+        };
+      };
+      stock_transfer_items: {
+        Row: {
+          id: string;
+          transfer_id: string;
+          from_product_id: string;
+          to_product_id: string;
+          quantity: number;
+        };
+        Insert: {
+          id?: string;
+          transfer_id: string;
+          from_product_id: string;
+          to_product_id: string;
+          quantity: number;
+        };
+        Update: {
+          id?: string;
+          transfer_id?: string;
+          from_product_id?: string;
+          to_product_id?: string;
+          quantity?: number;
+        };
+      };
+    };
+    Views: {
+      latest_product_forecasts: {
+        Row: {
+          product_id: string;
+          shop_id: string;
+          run_id: string;
+          recommended_stock: number;
+          safety_stock: number;
+          reorder_point: number;
+          economic_order_quantity: number;
+          risk_level: string;
+          created_at: string;
+        };
+      };
+      stock_reconciliation: {
+        Row: {
+          product_id: string;
+          shop_id: string;
+          name: string;
+          brand: string;
+          ledger_stock: number;
+          count_id: string | null;
+          counted_quantity: number | null;
+          ledger_quantity: number | null;
+          variance: number | null;
+          adjustment_id: string | null;
+          counted_at: string | null;
+        };
+      };
     };
   };
 }
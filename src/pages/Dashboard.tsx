@@ -9,25 +9,54 @@ import {
   TrendingUp,
   LogOut,
   Settings,
-  Lightbulb,
-  DollarSign,
   Plus,
+  CalendarDays,
+  ShoppingCart,
+  Truck,
+  Receipt,
+  Building2,
+  ArrowLeftRight,
 } from 'lucide-react';
 import ShopManagement from '../components/ShopManagement';
 import ProductManagement from '../components/ProductManagement';
 import DataUpload from '../components/DataUpload';
 import ForecastDashboard from '../components/ForecastDashboard';
+import FestivalCalendar from '../components/FestivalCalendar';
+import PurchaseOrders from '../components/PurchaseOrders';
+import SupplierManagement from '../components/SupplierManagement';
+import SalesEntry from '../components/SalesEntry';
+import ShopOverview from '../components/ShopOverview';
+import AlertBell from '../components/AlertBell';
+import ShopSettings from '../components/ShopSettings';
+import ConsolidatedReport from '../components/ConsolidatedReport';
+import StockTransfers from '../components/StockTransfers';
 
 type Shop = {
   id: string;
   name: string;
   category: string;
   location: string | null;
+  archived_at: string | null;
+  currency: string;
+  timezone: string;
+  default_horizon: number;
 };
 
 export default function Dashboard() {
   const { signOut, user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'overview' | 'products' | 'data' | 'forecast'>('overview');
+  const [activeTab, setActiveTab] = useState<
+    | 'overview'
+    | 'products'
+    | 'suppliers'
+    | 'sales'
+    | 'data'
+    | 'forecast'
+    | 'orders'
+    | 'festivals'
+    | 'consolidated'
+    | 'transfers'
+    | 'settings'
+  >('overview');
   const [shops, setShops] = useState<Shop[]>([]);
   const [selectedShop, setSelectedShop] = useState<Shop | null>(null);
   const [loading, setLoading] = useState(true);
@@ -36,18 +65,20 @@ export default function Dashboard() {
     loadShops();
   }, []);
 
-  const loadShops = async () => {
-    setLoading(true);
+  const loadShops = async (quiet = false) => {
+    if (!quiet) setLoading(true);
+    // Invitations sent to this user's email become memberships before their shops are listed
+    await supabase.rpc('accept_shop_invitations');
     const { data, error } = await supabase
       .from('shops')
       .select('*')
       .order('created_at', { ascending: false });
 
     if (!error && data) {
+      // Archived shops stay loaded for the settings tab but can't be selected
+      const active = data.filter((shop) => !shop.archived_at);
       setShops(data);
-      if (data.length > 0 && !selectedShop) {
-        setSelectedShop(data[0]);
-      }
+      setSelectedShop((current) => active.find((shop) => shop.id === current?.id) ?? active[0] ?? null);
     }
     setLoading(false);
   };
@@ -56,6 +87,9 @@ export default function Dashboard() {
     loadShops();
   };
 
+  const activeShops = shops.filter((shop) => !shop.archived_at);
+  const archivedShops = shops.filter((shop) => shop.archived_at);
+
   const handleSignOut = async () => {
     await signOut();
   };
@@ -63,8 +97,15 @@ export default function Dashboard() {
   const navigationItems = [
     { id: 'overview', label: 'Overview', icon: BarChart3 },
     { id: 'products', label: 'Products', icon: Package },
+    { id: 'suppliers', label: 'Suppliers', icon: Truck },
+    { id: 'sales', label: 'Daily Sales', icon: Receipt },
     { id: 'data', label: 'Upload Data', icon: Upload },
     { id: 'forecast', label: 'AI Forecast', icon: TrendingUp },
+    { id: 'orders', label: 'Orders', icon: ShoppingCart },
+    { id: 'festivals', label: 'Festivals', icon: CalendarDays },
+    { id: 'consolidated', label: 'All Shops', icon: Building2, multiShop: true },
+    { id: 'transfers', label: 'Transfers', icon: ArrowLeftRight, multiShop: true },
+    { id: 'settings', label: 'Settings', icon: Settings },
   ] as const;
 
   if (loading) {
@@ -94,16 +135,18 @@ export default function Dashboard() {
             </div>
 
             <div className="flex items-center gap-4">
+              {selectedShop && <AlertBell shopId={selectedShop.id} />}
+
               {selectedShop && (
                 <select
                   value={selectedShop.id}
                   onChange={(e) => {
-                    const shop = shops.find((s) => s.id === e.target.value);
+                    const shop = activeShops.find((s) => s.id === e.target.value);
                     setSelectedShop(shop || null);
                   }}
                   className="px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  {shops.map((shop) => (
+                  {activeShops.map((shop) => (
                     <option key={shop.id} value={shop.id}>
                       {shop.name}
                     </option>
@@ -124,7 +167,7 @@ export default function Dashboard() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {shops.length === 0 ? (
+        {activeShops.length === 0 ? (
           <div className="bg-white rounded-xl shadow-sm p-12 text-center">
             <div className="bg-blue-100 w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-6">
               <Store className="w-10 h-10 text-blue-600" />
@@ -135,24 +178,31 @@ export default function Dashboard() {
               products, upload sales data, and get AI-powered demand forecasts.
             </p>
             <ShopManagement onShopCreated={handleShopCreated} />
+            {archivedShops.length > 0 && (
+              <div className="mt-8 text-left">
+                <ShopSettings shop={null} archivedShops={archivedShops} onChanged={() => loadShops(true)} />
+              </div>
+            )}
           </div>
         ) : (
           <>
-            <nav className="flex gap-2 mb-6 bg-white p-2 rounded-xl shadow-sm">
-              {navigationItems.map((item) => (
-                <button
-                  key={item.id}
-                  onClick={() => setActiveTab(item.id)}
-                  className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition ${
-                    activeTab === item.id
-                      ? 'bg-blue-600 text-white'
-                      : 'text-gray-600 hover:bg-gray-100'
-                  }`}
-                >
-                  <item.icon className="w-5 h-5" />
-                  {item.label}
-                </button>
-              ))}
+            <nav className="flex gap-2 overflow-x-auto mb-6 bg-white p-2 rounded-xl shadow-sm">
+              {navigationItems
+                .filter((item) => !('multiShop' in item) || activeShops.length > 1)
+                .map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => setActiveTab(item.id)}
+                    className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition ${
+                      activeTab === item.id
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <item.icon className="w-5 h-5" />
+                    {item.label}
+                  </button>
+                ))}
             </nav>
 
             <div className="space-y-6">
@@ -164,54 +214,18 @@ export default function Dashboard() {
                         <h2 className="text-2xl font-bold text-gray-900">{selectedShop.name}</h2>
                         <p className="text-gray-600">{selectedShop.category}</p>
                       </div>
-                      <ShopManagement onShopCreated={handleShopCreated} />
+                      <ShopManagement
+                        shopId={selectedShop.id}
+                        onShopCreated={handleShopCreated}
+                        onShopLeft={loadShops}
+                      />
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                      <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-6 rounded-xl">
-                        <div className="flex items-center gap-3 mb-3">
-                          <div className="bg-blue-600 p-2 rounded-lg">
-                            <Package className="w-5 h-5 text-white" />
-                          </div>
-                          <h3 className="font-semibold text-gray-900">Products</h3>
-                        </div>
-                        <p className="text-3xl font-bold text-blue-600">-</p>
-                        <p className="text-sm text-gray-600 mt-1">Total items</p>
-                      </div>
-
-                      <div className="bg-gradient-to-br from-green-50 to-green-100 p-6 rounded-xl">
-                        <div className="flex items-center gap-3 mb-3">
-                          <div className="bg-green-600 p-2 rounded-lg">
-                            <TrendingUp className="w-5 h-5 text-white" />
-                          </div>
-                          <h3 className="font-semibold text-gray-900">Forecast</h3>
-                        </div>
-                        <p className="text-3xl font-bold text-green-600">Ready</p>
-                        <p className="text-sm text-gray-600 mt-1">AI-powered</p>
-                      </div>
-
-                      <div className="bg-gradient-to-br from-orange-50 to-orange-100 p-6 rounded-xl">
-                        <div className="flex items-center gap-3 mb-3">
-                          <div className="bg-orange-600 p-2 rounded-lg">
-                            <Lightbulb className="w-5 h-5 text-white" />
-                          </div>
-                          <h3 className="font-semibold text-gray-900">Insights</h3>
-                        </div>
-                        <p className="text-3xl font-bold text-orange-600">AI</p>
-                        <p className="text-sm text-gray-600 mt-1">Explainable</p>
-                      </div>
-
-                      <div className="bg-gradient-to-br from-purple-50 to-purple-100 p-6 rounded-xl">
-                        <div className="flex items-center gap-3 mb-3">
-                          <div className="bg-purple-600 p-2 rounded-lg">
-                            <DollarSign className="w-5 h-5 text-white" />
-                          </div>
-                          <h3 className="font-semibold text-gray-900">Impact</h3>
-                        </div>
-                        <p className="text-3xl font-bold text-purple-600">High</p>
-                        <p className="text-sm text-gray-600 mt-1">ROI potential</p>
-                      </div>
-                    </div>
+                    <ShopOverview
+                      shopId={selectedShop.id}
+                      currency={selectedShop.currency}
+                      timezone={selectedShop.timezone}
+                    />
                   </div>
 
                   <div className="bg-gradient-to-r from-blue-600 to-blue-700 rounded-xl shadow-sm p-8 text-white">
@@ -256,15 +270,52 @@ export default function Dashboard() {
               )}
 
               {activeTab === 'products' && selectedShop && (
-                <ProductManagement shopId={selectedShop.id} />
+                <ProductManagement shopId={selectedShop.id} currency={selectedShop.currency} />
+              )}
+
+              {activeTab === 'suppliers' && selectedShop && (
+                <SupplierManagement shopId={selectedShop.id} />
+              )}
+
+              {activeTab === 'sales' && selectedShop && (
+                <SalesEntry
+                  shopId={selectedShop.id}
+                  currency={selectedShop.currency}
+                  timezone={selectedShop.timezone}
+                />
               )}
 
               {activeTab === 'data' && selectedShop && (
-                <DataUpload shopId={selectedShop.id} />
+                <DataUpload shopId={selectedShop.id} timezone={selectedShop.timezone} />
               )}
 
               {activeTab === 'forecast' && selectedShop && (
-                <ForecastDashboard shopId={selectedShop.id} />
+                <ForecastDashboard
+                  shopId={selectedShop.id}
+                  defaultHorizon={selectedShop.default_horizon}
+                  currency={selectedShop.currency}
+                  timezone={selectedShop.timezone}
+                />
+              )}
+
+              {activeTab === 'orders' && selectedShop && (
+                <PurchaseOrders shopId={selectedShop.id} />
+              )}
+
+              {activeTab === 'festivals' && selectedShop && (
+                <FestivalCalendar shopId={selectedShop.id} />
+              )}
+
+              {activeTab === 'consolidated' && activeShops.length > 1 && (
+                <ConsolidatedReport shops={activeShops} />
+              )}
+
+              {activeTab === 'transfers' && selectedShop && activeShops.length > 1 && (
+                <StockTransfers shopId={selectedShop.id} shops={activeShops} />
+              )}
+
+              {activeTab === 'settings' && selectedShop && (
+                <ShopSettings shop={selectedShop} archivedShops={archivedShops} onChanged={() => loadShops(true)} />
               )}
             </div>
           </>
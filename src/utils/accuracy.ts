@@ -0,0 +1,108 @@
+import { calculateMetrics, ForecastMetrics } from './forecasting';
+
+export interface ForecastHistoryRow {
+  run_id: string;
+  model_used: string;
+  forecast_date: string;
+  predicted_demand: number;
+  confidence_score: number;
+  created_at: string;
+}
+
+export interface RunAccuracy {
+  runId: string;
+  model: string;
+  createdAt: string;
+  horizonDays: number;
+  evaluatedDays: number;
+  expectedAccuracy: number;
+  metrics: ForecastMetrics | null;
+  accuracy: number | null;
+}
+
+export interface ModelAccuracy {
+  model: string;
+  runs: number;
+  evaluatedDays: number;
+  metrics: ForecastMetrics;
+  accuracy: number;
+}
+
+export interface ActualSales {
+  byDate: Map<string, number>;
+  lastDate: string | null;
+  // Days without a sales row inside the recorded range count as zero sales
+  missingAsZero: boolean;
+}
+
+// Same formula as a forecast's confidence score, so realised and expected accuracy are comparable
+const accuracyFrom = (metrics: ForecastMetrics) => Math.max(0, 100 - metrics.mape);
+
+// Actuals are only known up to the last day with recorded sales; later forecast days are still open
+function actualFor(date: string, actuals: ActualSales): number | null {
+  const recorded = actuals.byDate.get(date);
+  if (recorded !== undefined) return recorded;
+  if (actuals.missingAsZero && actuals.lastDate !== null && date <= actuals.lastDate) return 0;
+  return null;
+}
+
+interface RunPoints {
+  row: ForecastHistoryRow;
+  horizonDays: number;
+  actual: number[];
+  predicted: number[];
+}
+
+function collectRuns(rows: ForecastHistoryRow[], actuals: ActualSales): RunPoints[] {
+  const runs = new Map<string, RunPoints>();
+
+  for (const row of rows) {
+    const run = runs.get(row.run_id) ?? { row, horizonDays: 0, actual: [], predicted: [] };
+    run.horizonDays++;
+    const actual = actualFor(row.forecast_date, actuals);
+    if (actual !== null) {
+      run.actual.push(actual);
+      run.predicted.push(Number(row.predicted_demand));
+    }
+    runs.set(row.run_id, run);
+  }
+
+  return [...runs.values()].sort((a, b) => a.row.created_at.localeCompare(b.row.created_at));
+}
+
+export function evaluateForecastRuns(rows: ForecastHistoryRow[], actuals: ActualSales): RunAccuracy[] {
+  return collectRuns(rows, actuals).map(({ row, horizonDays, actual, predicted }) => {
+    const metrics = actual.length > 0 ? calculateMetrics(actual, predicted) : null;
+    return {
+      runId: row.run_id,
+      model: row.model_used,
+      createdAt: row.created_at,
+      horizonDays,
+      evaluatedDays: actual.length,
+      expectedAccuracy: Number(row.confidence_score),
+      metrics,
+      accuracy: metrics ? accuracyFrom(metrics) : null,
+    };
+  });
+}
+
+// Pools every evaluated day across a model's runs, so long runs weigh more than short ones
+export function accuracyByModel(rows: ForecastHistoryRow[], actuals: ActualSales): ModelAccuracy[] {
+  const models = new Map<string, { runs: number; actual: number[]; predicted: number[] }>();
+
+  for (const run of collectRuns(rows, actuals)) {
+    if (run.actual.length === 0) continue;
+    const model = models.get(run.row.model_used) ?? { runs: 0, actual: [], predicted: [] };
+    model.runs++;
+    model.actual.push(...run.actual);
+    model.predicted.push(...run.predicted);
+    models.set(run.row.model_used, model);
+  }
+
+  return [...models.entries()]
+    .map(([model, { runs, actual, predicted }]) => {
+      const metrics = calculateMetrics(actual, predicted);
+      return { model, runs, evaluatedDays: actual.length, metrics, accuracy: accuracyFrom(metrics) };
+    })
+    .sort((a, b) => b.accuracy - a.accuracy);
+}
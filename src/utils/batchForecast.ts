@@ -0,0 +1,87 @@
+import {
+  compareModels,
+  calculateInventoryRecommendation,
+  SalesDataPoint,
+  FestivalEvent,
+  ForecastResult,
+  InventoryRecommendation,
+} from './forecasting';
+import { InventoryPolicy } from './inventory';
+import { preprocessSales, GapFillMethod } from './preprocessing';
+
+export const MIN_HISTORY_DAYS = 7;
+
+export interface BatchForecastProduct {
+  id: string;
+  currentStock: number;
+  unitCost: number;
+  policy: InventoryPolicy;
+  gapFill: GapFillMethod;
+  sales: SalesDataPoint[];
+}
+
+export interface BatchForecastRequest {
+  products: BatchForecastProduct[];
+  horizon: number;
+  festivals: FestivalEvent[];
+  today: string;
+}
+
+export type BatchForecastOutcome =
+  | { productId: string; status: 'ok'; forecast: ForecastResult; recommendation: InventoryRecommendation }
+  | { productId: string; status: 'skipped' | 'failed'; reason: string };
+
+export type BatchForecastMessage =
+  | { type: 'progress'; completed: number; total: number; outcome: BatchForecastOutcome }
+  | { type: 'done' };
+
+export function forecastProduct(
+  product: BatchForecastProduct,
+  horizon: number,
+  festivals: FestivalEvent[],
+  today: string
+): BatchForecastOutcome {
+  if (product.sales.length < MIN_HISTORY_DAYS) {
+    return {
+      productId: product.id,
+      status: 'skipped',
+      reason: `Only ${product.sales.length} days of sales data`,
+    };
+  }
+
+  // Outlier corrections need a human review, so batch runs only fill gaps
+  const { series } = preprocessSales(product.sales, { gapFill: product.gapFill, outlierMethod: 'iqr' });
+  const forecast = compareModels(series, horizon, festivals, today).best;
+  const recommendation = calculateInventoryRecommendation(
+    forecast,
+    product.currentStock,
+    product.unitCost,
+    product.policy
+  );
+
+  return { productId: product.id, status: 'ok', forecast, recommendation };
+}
+
+export function toForecastRows(
+  shopId: string,
+  productId: string,
+  forecast: ForecastResult,
+  recommendation: InventoryRecommendation,
+  runId: string = crypto.randomUUID()
+) {
+  return forecast.predictions.map((p) => ({
+    product_id: productId,
+    shop_id: shopId,
+    run_id: runId,
+    horizon_days: forecast.horizon,
+    forecast_date: p.date,
+    predicted_demand: p.value,
+    recommended_stock: recommendation.recommendedStock,
+    safety_stock: recommendation.safetyStock,
+    reorder_point: recommendation.reorderPoint,
+    economic_order_quantity: recommendation.economicOrderQuantity,
+    risk_level: recommendation.riskLevel,
+    model_used: forecast.model,
+    confidence_score: forecast.confidence,
+  }));
+}
@@ -0,0 +1,87 @@
+export interface BranchProduct {
+  id: string;
+  shop_id: string;
+  name: string;
+  brand: string;
+  barcode: string | null;
+  current_stock: number;
+}
+
+export interface TransferSuggestion {
+  name: string;
+  brand: string;
+  fromShopId: string;
+  fromProductId: string;
+  fromStock: number;
+  toShopId: string;
+  toProductId: string;
+  toStock: number;
+  quantity: number;
+}
+
+// Branches keep their own product rows, so the same item is matched by barcode, or by name and brand
+export function productMatchKey(product: Pick<BranchProduct, 'name' | 'brand' | 'barcode'>): string {
+  if (product.barcode) return `barcode:${product.barcode.trim()}`;
+  return `name:${product.name.trim().toLowerCase()}|${product.brand.trim().toLowerCase()}`;
+}
+
+export function groupAcrossShops(products: BranchProduct[]): Map<string, BranchProduct[]> {
+  const groups = new Map<string, BranchProduct[]>();
+  for (const product of products) {
+    const key = productMatchKey(product);
+    groups.set(key, [...(groups.get(key) ?? []), product]);
+  }
+  return groups;
+}
+
+// A branch is overstocked above its forecast's recommended stock and understocked once it falls to its
+// reorder point; surplus is moved to the largest shortfalls first. Products without a forecast are skipped.
+export function suggestTransfers(
+  products: BranchProduct[],
+  recommendedStock: Map<string, number>,
+  reorderPoints: Map<string, number>
+): TransferSuggestion[] {
+  const suggestions: TransferSuggestion[] = [];
+
+  for (const group of groupAcrossShops(products).values()) {
+    // A shop holding two rows for the same item is ambiguous and left out
+    const branches = group.filter(
+      (product) => recommendedStock.has(product.id) && group.filter((p) => p.shop_id === product.shop_id).length === 1
+    );
+    if (new Set(branches.map((product) => product.shop_id)).size < 2) continue;
+
+    const surplus = branches
+      .map((product) => ({ product, quantity: product.current_stock - (recommendedStock.get(product.id) ?? 0) }))
+      .filter((entry) => entry.quantity > 0)
+      .sort((a, b) => b.quantity - a.quantity);
+    const shortfall = branches
+      .filter((product) => product.current_stock <= (reorderPoints.get(product.id) ?? 0))
+      .map((product) => ({ product, quantity: (recommendedStock.get(product.id) ?? 0) - product.current_stock }))
+      .filter((entry) => entry.quantity > 0)
+      .sort((a, b) => b.quantity - a.quantity);
+
+    for (const need of shortfall) {
+      for (const source of surplus) {
+        if (need.quantity <= 0) break;
+        const quantity = Math.floor(Math.min(source.quantity, need.quantity));
+        if (quantity <= 0) continue;
+
+        suggestions.push({
+          name: need.product.name,
+          brand: need.product.brand,
+          fromShopId: source.product.shop_id,
+          fromProductId: source.product.id,
+          fromStock: source.product.current_stock,
+          toShopId: need.product.shop_id,
+          toProductId: need.product.id,
+          toStock: need.product.current_stock,
+          quantity,
+        });
+        source.quantity -= quantity;
+        need.quantity -= quantity;
+      }
+    }
+  }
+
+  return suggestions.sort((a, b) => b.quantity - a.quantity);
+}
@@ -0,0 +1,155 @@
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+export type ImportField = 'date' | 'quantity_sold' | 'revenue' | 'is_festival' | 'product_name' | 'brand';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type MappedRow = Partial<Record<ImportField, string>>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'quantity_sold', label: 'Quantity Sold', required: true },
+  { field: 'revenue', label: 'Revenue', required: false },
+  { field: 'is_festival', label: 'Festival Indicator', required: false },
+  { field: 'product_name', label: 'Product Name', required: false },
+  { field: 'brand', label: 'Brand', required: false },
+];
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'saledate', 'salesdate', 'billdate', 'invoicedate', 'day'],
+  quantity_sold: ['quantitysold', 'quantity', 'qty', 'qtysold', 'unitssold', 'units'],
+  revenue: ['revenue', 'amount', 'netamount', 'total', 'totalamount', 'sales', 'value'],
+  is_festival: ['festivalindicator', 'festival', 'isfestival', 'holiday'],
+  product_name: ['productname', 'product', 'itemname', 'item', 'name'],
+  brand: ['brand', 'brandname', 'make', 'manufacturer'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>(DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (const ch of text.replace(/^\uFEFF/, '')) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(ch)) {
+      counts.set(ch, (counts.get(ch) ?? 0) + 1);
+    }
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = delimiter;
+  }
+  return best;
+}
+
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): ParsedCSV {
+  const input = text.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter((r) => r.some((value) => value.trim() !== ''));
+
+  return {
+    headers: headers.map((h) => h.trim()),
+    rows: rows.map((r) => r.map((value) => value.trim())),
+    delimiter,
+  };
+}
+
+function quoteField(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function stringifyCSV(headers: string[], rows: string[][], delimiter: string = ','): string {
+  return [headers, ...rows]
+    .map((row) => row.map((value) => quoteField(value ?? '', delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+export function guessColumnMapping(headers: string[], saved?: ColumnMapping | null): ColumnMapping {
+  if (saved && Object.keys(saved).length > 0 && Object.values(saved).every((header) => !header || headers.includes(header))) {
+    return { ...saved };
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const { field } of IMPORT_FIELDS) {
+    const match = headers.find((h) => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+}
+
+export function applyColumnMapping(parsed: ParsedCSV, mapping: ColumnMapping): MappedRow[] {
+  const indexes = IMPORT_FIELDS.map(({ field }) => ({
+    field,
+    index: mapping[field] ? parsed.headers.indexOf(mapping[field] as string) : -1,
+  }));
+
+  return parsed.rows.map((row) => {
+    const mapped: MappedRow = {};
+    for (const { field, index } of indexes) {
+      if (index >= 0 && row[index] !== undefined && row[index] !== '') {
+        mapped[field] = row[index];
+      }
+    }
+    return mapped;
+  });
+}
+
+export function parseFestivalFlag(value: string | undefined): boolean {
+  return ['yes', 'y', 'true', '1'].includes((value ?? '').trim().toLowerCase());
+}
+
+export function productKey(name: string | undefined, brand: string | undefined): string {
+  return `${(name ?? '').trim().toLowerCase()}|${(brand ?? '').trim().toLowerCase()}`;
+}
@@ -1,24 +1,95 @@
+import { mean, normalQuantile, standardDeviation } from './statistics';
+import {
+  calculateInventoryPolicy,
+  roundOrderQuantity,
+  DEFAULT_INVENTORY_POLICY,
+  InventoryPolicy,
+} from './inventory';
+
 export interface SalesDataPoint {
   date: string;
   quantity_sold: number;
   is_festival: boolean;
 }
 
+export interface ForecastPoint {
+  date: string;
+  value: number;
+}
+
+export interface PredictionInterval {
+  level: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastPrediction extends ForecastPoint {
+  intervals: PredictionInterval[];
+  festival?: string;
+}
+
+export interface FestivalEvent {
+  date: string;
+  name: string;
+}
+
+export interface ForecastMetrics {
+  mae: number;
+  rmse: number;
+  mape: number;
+  smape: number;
+}
+
+export interface BacktestFold {
+  trainSize: number;
+  start: string;
+  end: string;
+  metrics: ForecastMetrics;
+}
+
+export interface BacktestResult {
+  model: string;
+  horizon: number;
+  folds: BacktestFold[];
+  metrics: ForecastMetrics;
+}
+
 export interface ForecastResult {
   model: string;
-  predictions: { date: string; value: number }[];
-  metrics: {
-    mae: number;
-    rmse: number;
-    mape: number;
-  };
+  horizon: number;
+  fitted: ForecastPoint[];
+  predictions: ForecastPrediction[];
+  metrics: ForecastMetrics;
+  residualStd: number;
   confidence: number;
+  festivalUplift?: number;
+  backtest?: BacktestResult;
+}
+
+export interface ModelSelection {
+  best: ForecastResult;
+  candidates: { model: string; backtest: BacktestResult | null; inSample: ForecastMetrics }[];
+}
+
+export type Seasonality = 'additive' | 'multiplicative';
+
+export interface HoltWintersOptions {
+  seasonLength?: number;
+  seasonality?: Seasonality;
+  alpha?: number;
+  beta?: number;
+  gamma?: number;
 }
 
 export interface InventoryRecommendation {
   forecastedDemand: number;
   recommendedStock: number;
+  orderQuantity: number;
   safetyStock: number;
+  reorderPoint: number;
+  economicOrderQuantity: number;
+  leadTimeDays: number;
+  serviceLevel: number;
   riskLevel: 'Low' | 'Medium' | 'High';
   reasoning: string;
 }
@@ -38,11 +109,49 @@ export interface BusinessImpact {
   revenueIncrease: number;
 }
 
-function calculateMetrics(actual: number[], predicted: number[]) {
+export const DEFAULT_HORIZON = 7;
+
+export const DEFAULT_INTERVAL_LEVELS = [80, 95];
+export const BACKTEST_HORIZON = 7;
+export const BACKTEST_FOLDS = 5;
+
+// Dates follow the last sales day, which keeps backtest folds aligned with their test windows
+function futureDates(data: SalesDataPoint[], horizon: number): string[] {
+  const lastDate = new Date(data[data.length - 1].date);
+  const dates: string[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const date = new Date(lastDate);
+    date.setUTCDate(date.getUTCDate() + h);
+    dates.push(date.toISOString().split('T')[0]);
+  }
+  return dates;
+}
+
+export function addPredictionIntervals(
+  points: ForecastPoint[],
+  residualStd: number,
+  levels: number[] = DEFAULT_INTERVAL_LEVELS
+): ForecastPrediction[] {
+  return points.map((point, h) => ({
+    date: point.date,
+    value: point.value,
+    intervals: levels.map((level) => {
+      const margin = normalQuantile(0.5 + level / 200) * residualStd * Math.sqrt(h + 1);
+      return {
+        level,
+        lower: Math.max(0, Math.round(point.value - margin)),
+        upper: Math.round(point.value + margin),
+      };
+    }),
+  }));
+}
+
+export function calculateMetrics(actual: number[], predicted: number[]): ForecastMetrics {
   const n = Math.min(actual.length, predicted.length);
   let mae = 0;
   let mse = 0;
   let mape = 0;
+  let smape = 0;
 
   for (let i = 0; i < n; i++) {
     const error = Math.abs(actual[i] - predicted[i]);
@@ -51,27 +160,37 @@ function calculateMetrics(actual: number[], predicted: number[]) {
     if (actual[i] !== 0) {
       mape += Math.abs((actual[i] - predicted[i]) / actual[i]);
     }
+    const denominator = Math.abs(actual[i]) + Math.abs(predicted[i]);
+    if (denominator !== 0) {
+      smape += (2 * error) / denominator;
+    }
   }
 
   mae /= n;
   mse /= n;
   mape = (mape / n) * 100;
+  smape = (smape / n) * 100;
 
   return {
     mae,
     rmse: Math.sqrt(mse),
     mape,
+    smape,
   };
 }
 
-export function movingAverage(data: SalesDataPoint[], window: number = 7): ForecastResult {
+export function movingAverage(
+  data: SalesDataPoint[],
+  window: number = 7,
+  horizon: number = DEFAULT_HORIZON
+): ForecastResult {
   const values = data.map((d) => d.quantity_sold);
-  const predictions: { date: string; value: number }[] = [];
+  const fitted: ForecastPoint[] = [];
 
   for (let i = window; i < values.length; i++) {
     const slice = values.slice(i - window, i);
     const avg = slice.reduce((a, b) => a + b, 0) / window;
-    predictions.push({
+    fitted.push({
       date: data[i].date,
       value: Math.round(avg),
     });
@@ -80,66 +199,74 @@ export function movingAverage(data: SalesDataPoint[], window: number = 7): Forec
   const lastWindowValues = values.slice(-window);
   const nextPrediction = lastWindowValues.reduce((a, b) => a + b, 0) / window;
 
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  predictions.push({
-    date: tomorrow.toISOString().split('T')[0],
+  const predictions = futureDates(data, horizon).map((date) => ({
+    date,
     value: Math.round(nextPrediction),
-  });
+  }));
 
   const actual = values.slice(window);
-  const predicted = predictions.slice(0, -1).map((p) => p.value);
+  const predicted = fitted.map((p) => p.value);
   const metrics = calculateMetrics(actual, predicted);
+  const residualStd = standardDeviation(actual.map((a, i) => a - predicted[i]));
 
   return {
     model: 'Moving Average',
-    predictions,
+    horizon,
+    fitted,
+    predictions: addPredictionIntervals(predictions, residualStd),
     metrics,
+    residualStd,
     confidence: Math.max(0, 100 - metrics.mape),
   };
 }
 
 export function exponentialSmoothing(
   data: SalesDataPoint[],
-  alpha: number = 0.3
+  alpha: number = 0.3,
+  horizon: number = DEFAULT_HORIZON
 ): ForecastResult {
   const values = data.map((d) => d.quantity_sold);
-  const predictions: { date: string; value: number }[] = [];
+  const fitted: ForecastPoint[] = [];
 
   let forecast = values[0];
-  predictions.push({
+  fitted.push({
     date: data[0].date,
     value: Math.round(forecast),
   });
 
   for (let i = 1; i < values.length; i++) {
     forecast = alpha * values[i] + (1 - alpha) * forecast;
-    predictions.push({
+    fitted.push({
       date: data[i].date,
       value: Math.round(forecast),
     });
   }
 
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  predictions.push({
-    date: tomorrow.toISOString().split('T')[0],
+  const predictions = futureDates(data, horizon).map((date) => ({
+    date,
     value: Math.round(forecast),
-  });
+  }));
 
   const actual = values;
-  const predicted = predictions.slice(0, -1).map((p) => p.value);
+  const predicted = fitted.map((p) => p.value);
   const metrics = calculateMetrics(actual, predicted);
+  const residualStd = standardDeviation(actual.map((a, i) => a - predicted[i]));
 
   return {
     model: 'Exponential Smoothing',
-    predictions,
+    horizon,
+    fitted,
+    predictions: addPredictionIntervals(predictions, residualStd),
     metrics,
+    residualStd,
     confidence: Math.max(0, 100 - metrics.mape),
   };
 }
 
-export function linearRegression(data: SalesDataPoint[]): ForecastResult {
+export function linearRegression(
+  data: SalesDataPoint[],
+  horizon: number = DEFAULT_HORIZON
+): ForecastResult {
   const n = data.length;
   const values = data.map((d) => d.quantity_sold);
 
@@ -158,54 +285,333 @@ export function linearRegression(data: SalesDataPoint[]): ForecastResult {
   const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
   const intercept = (sumY - slope * sumX) / n;
 
-  const predictions: { date: string; value: number }[] = [];
+  const fitted: ForecastPoint[] = [];
 
   for (let i = 0; i < n; i++) {
-    predictions.push({
+    fitted.push({
       date: data[i].date,
       value: Math.max(0, Math.round(slope * i + intercept)),
     });
   }
 
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  predictions.push({
-    date: tomorrow.toISOString().split('T')[0],
-    value: Math.max(0, Math.round(slope * n + intercept)),
-  });
+  const predictions = futureDates(data, horizon).map((date, h) => ({
+    date,
+    value: Math.max(0, Math.round(slope * (n + h) + intercept)),
+  }));
 
   const actual = values;
-  const predicted = predictions.slice(0, -1).map((p) => p.value);
+  const predicted = fitted.map((p) => p.value);
   const metrics = calculateMetrics(actual, predicted);
+  const residualStd = standardDeviation(actual.map((a, i) => a - predicted[i]));
 
   return {
     model: 'Linear Regression',
-    predictions,
+    horizon,
+    fitted,
+    predictions: addPredictionIntervals(predictions, residualStd),
+    metrics,
+    residualStd,
+    confidence: Math.max(0, 100 - metrics.mape),
+  };
+}
+
+export const WEEKLY_SEASON = 7;
+export const YEARLY_SEASON = 365;
+
+export function holtWinters(
+  data: SalesDataPoint[],
+  options: HoltWintersOptions = {},
+  horizon: number = DEFAULT_HORIZON
+): ForecastResult {
+  const {
+    seasonLength = WEEKLY_SEASON,
+    seasonality = 'additive',
+    alpha = 0.3,
+    beta = 0.1,
+    gamma = 0.2,
+  } = options;
+  const values = data.map((d) => d.quantity_sold);
+  const n = values.length;
+  const m = seasonLength;
+
+  if (n < m * 2) {
+    throw new Error(`Holt-Winters needs at least ${m * 2} days of data`);
+  }
+
+  const multiplicative = seasonality === 'multiplicative';
+  const nonZero = (v: number) => (v > 0 ? v : 1);
+  const seasonCount = Math.floor(n / m);
+  const seasonAverages: number[] = [];
+  for (let j = 0; j < seasonCount; j++) {
+    const slice = values.slice(j * m, (j + 1) * m);
+    seasonAverages.push(slice.reduce((a, b) => a + b, 0) / m);
+  }
+
+  const season: number[] = [];
+  for (let i = 0; i < m; i++) {
+    let sum = 0;
+    for (let j = 0; j < seasonCount; j++) {
+      const value = values[j * m + i];
+      sum += multiplicative
+        ? value / nonZero(seasonAverages[j])
+        : value - seasonAverages[j];
+    }
+    season.push(sum / seasonCount);
+  }
+
+  let level = seasonAverages[0];
+  let trend = (seasonAverages[1] - seasonAverages[0]) / m;
+  const fitted: ForecastPoint[] = [];
+
+  for (let t = 0; t < n; t++) {
+    const i = t % m;
+    const estimate = multiplicative ? (level + trend) * season[i] : level + trend + season[i];
+    fitted.push({
+      date: data[t].date,
+      value: Math.max(0, Math.round(estimate)),
+    });
+
+    const previousLevel = level;
+    level = multiplicative
+      ? alpha * (values[t] / nonZero(season[i])) + (1 - alpha) * (level + trend)
+      : alpha * (values[t] - season[i]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    season[i] = multiplicative
+      ? gamma * (values[t] / nonZero(level)) + (1 - gamma) * season[i]
+      : gamma * (values[t] - level) + (1 - gamma) * season[i];
+  }
+
+  const predictions = futureDates(data, horizon).map((date, h) => {
+    const i = (n + h) % m;
+    const base = level + (h + 1) * trend;
+    return {
+      date,
+      value: Math.max(0, Math.round(multiplicative ? base * season[i] : base + season[i])),
+    };
+  });
+
+  const predicted = fitted.map((p) => p.value);
+  const metrics = calculateMetrics(values, predicted);
+  const residualStd = standardDeviation(values.map((a, i) => a - predicted[i]));
+
+  return {
+    model: `Holt-Winters (${seasonality}, ${m}-day season)`,
+    horizon,
+    fitted,
+    predictions: addPredictionIntervals(predictions, residualStd),
     metrics,
+    residualStd,
     confidence: Math.max(0, 100 - metrics.mape),
   };
 }
 
-export function selectBestModel(data: SalesDataPoint[]): ForecastResult {
-  const models = [
-    movingAverage(data),
-    exponentialSmoothing(data),
-    linearRegression(data),
+export function festivalUplift(data: SalesDataPoint[]): number {
+  const festivalDays = data.filter((d) => d.is_festival).map((d) => d.quantity_sold);
+  const regularDays = data.filter((d) => !d.is_festival).map((d) => d.quantity_sold);
+  const regularAvg = mean(regularDays);
+
+  if (festivalDays.length === 0 || regularAvg <= 0) {
+    return 1;
+  }
+
+  return mean(festivalDays) / regularAvg;
+}
+
+export function applyFestivalCalendar(
+  forecast: ForecastResult,
+  data: SalesDataPoint[],
+  calendar: FestivalEvent[]
+): ForecastResult {
+  const uplift = festivalUplift(data);
+  const eventsByDate = new Map<string, string[]>();
+  for (const event of calendar) {
+    eventsByDate.set(event.date, [...(eventsByDate.get(event.date) ?? []), event.name]);
+  }
+
+  const predictions = forecast.predictions.map((p) => {
+    const names = eventsByDate.get(p.date);
+    if (!names) return p;
+    return {
+      ...p,
+      value: Math.round(p.value * uplift),
+      festival: names.join(' / '),
+      intervals: p.intervals.map((interval) => ({
+        ...interval,
+        lower: Math.round(interval.lower * uplift),
+        upper: Math.round(interval.upper * uplift),
+      })),
+    };
+  });
+
+  return { ...forecast, predictions, festivalUplift: uplift };
+}
+
+type ModelFit = (data: SalesDataPoint[], horizon: number) => ForecastResult;
+
+interface ModelCandidate {
+  minTrain: number;
+  fit: ModelFit;
+}
+
+function candidateModels(data: SalesDataPoint[]): ModelCandidate[] {
+  const candidates: ModelCandidate[] = [
+    { minTrain: 14, fit: (d, h) => movingAverage(d, 7, h) },
+    { minTrain: 7, fit: (d, h) => exponentialSmoothing(d, 0.3, h) },
+    { minTrain: 7, fit: (d, h) => linearRegression(d, h) },
   ];
 
-  models.sort((a, b) => a.metrics.mape - b.metrics.mape);
+  const allPositive = data.every((d) => d.quantity_sold > 0);
+  for (const seasonLength of [WEEKLY_SEASON, YEARLY_SEASON]) {
+    if (data.length < seasonLength * 2) continue;
+    const minTrain = seasonLength * 2;
+    candidates.push({
+      minTrain,
+      fit: (d, h) => holtWinters(d, { seasonLength, seasonality: 'additive' }, h),
+    });
+    if (allPositive) {
+      candidates.push({
+        minTrain,
+        fit: (d, h) => holtWinters(d, { seasonLength, seasonality: 'multiplicative' }, h),
+      });
+    }
+  }
+
+  return candidates;
+}
+
+export function rollingOriginBacktest(
+  data: SalesDataPoint[],
+  fit: ModelFit,
+  minTrain: number,
+  horizon: number = BACKTEST_HORIZON,
+  folds: number = BACKTEST_FOLDS
+): BacktestResult | null {
+  const origins: number[] = [];
+  for (let origin = data.length - horizon; origin >= minTrain && origins.length < folds; origin -= horizon) {
+    origins.unshift(origin);
+  }
+
+  if (origins.length === 0) {
+    return null;
+  }
+
+  let model = '';
+  const allActual: number[] = [];
+  const allPredicted: number[] = [];
+  const results: BacktestFold[] = origins.map((origin) => {
+    const train = data.slice(0, origin);
+    const test = data.slice(origin, origin + horizon);
+    const festivals = test
+      .filter((d) => d.is_festival)
+      .map((d) => ({ date: d.date, name: 'Festival' }));
+    const result = applyFestivalCalendar(fit(train, horizon), train, festivals);
+    const actual = test.map((d) => d.quantity_sold);
+    const predicted = result.predictions.map((p) => p.value);
+    model = result.model;
+    allActual.push(...actual);
+    allPredicted.push(...predicted);
+
+    return {
+      trainSize: origin,
+      start: test[0].date,
+      end: test[test.length - 1].date,
+      metrics: calculateMetrics(actual, predicted),
+    };
+  });
+
+  return {
+    model,
+    horizon,
+    folds: results,
+    metrics: calculateMetrics(allActual, allPredicted),
+  };
+}
+
+// Days between the last sales day and today that have no data yet
+function daysSinceLastSale(data: SalesDataPoint[], today: string): number {
+  const lastDate = new Date(data[data.length - 1].date).getTime();
+  return Math.max(0, Math.round((new Date(today).getTime() - lastDate) / (24 * 60 * 60 * 1000)) - 1);
+}
+
+// Live forecasts start at max(last sales day + 1, today): when sales data is stale the model forecasts
+// through the missing days and drops them, so no forecast is dated in the past
+function fitFromToday(fit: ModelFit, data: SalesDataPoint[], horizon: number, today: string): ForecastResult {
+  const skip = daysSinceLastSale(data, today);
+  const forecast = fit(data, horizon + skip);
+  return skip === 0 ? forecast : { ...forecast, horizon, predictions: forecast.predictions.slice(skip) };
+}
+
+// `today` is the shop's local date, so the caller resolves it in the shop's time zone
+export function compareModels(
+  data: SalesDataPoint[],
+  horizon: number,
+  calendar: FestivalEvent[],
+  today: string
+): ModelSelection {
+  const candidates = candidateModels(data);
+  const minTrain = Math.max(...candidates.map((c) => c.minTrain));
+  const backtestHorizon = Math.max(1, Math.min(horizon, BACKTEST_HORIZON, data.length - minTrain));
+
+  const evaluated = candidates.map((candidate) => {
+    const forecast = applyFestivalCalendar(fitFromToday(candidate.fit, data, horizon, today), data, calendar);
+    const backtest = rollingOriginBacktest(data, candidate.fit, minTrain, backtestHorizon);
+    return { forecast, backtest };
+  });
+
+  const outOfSample = evaluated.every((e) => e.backtest !== null);
+  const score = (e: (typeof evaluated)[number]) =>
+    outOfSample && e.backtest ? e.backtest.metrics.mape : e.forecast.metrics.mape;
+
+  evaluated.sort((a, b) => score(a) - score(b));
+
+  const best = evaluated[0];
+  const bestForecast: ForecastResult = best.backtest
+    ? {
+        ...best.forecast,
+        backtest: best.backtest,
+        confidence: Math.max(0, 100 - best.backtest.metrics.mape),
+      }
+    : best.forecast;
 
-  return models[0];
+  return {
+    best: bestForecast,
+    candidates: evaluated.map((e) => ({
+      model: e.forecast.model,
+      backtest: e.backtest,
+      inSample: e.forecast.metrics,
+    })),
+  };
+}
+
+export function selectBestModel(
+  data: SalesDataPoint[],
+  horizon: number,
+  calendar: FestivalEvent[],
+  today: string
+): ForecastResult {
+  return compareModels(data, horizon, calendar, today).best;
 }
 
 export function calculateInventoryRecommendation(
   forecast: ForecastResult,
-  currentStock: number
+  currentStock: number,
+  unitPrice: number = 0,
+  policy: InventoryPolicy = DEFAULT_INVENTORY_POLICY
 ): InventoryRecommendation {
-  const forecastedDemand = forecast.predictions[forecast.predictions.length - 1].value;
-  const safetyStockPercent = forecast.confidence > 80 ? 0.1 : forecast.confidence > 60 ? 0.15 : 0.2;
-  const safetyStock = Math.round(forecastedDemand * safetyStockPercent);
-  const recommendedStock = forecastedDemand + safetyStock;
+  const forecastedDemand = forecast.predictions.reduce((sum, p) => sum + p.value, 0);
+  const { safetyStock, reorderPoint, economicOrderQuantity } = calculateInventoryPolicy(
+    forecastedDemand / forecast.horizon,
+    forecast.residualStd,
+    unitPrice,
+    policy
+  );
+  const targetStock = forecastedDemand + safetyStock;
+  const orderQuantity = roundOrderQuantity(
+    targetStock - currentStock,
+    policy.casePackSize,
+    policy.minimumOrderQuantity
+  );
+  const recommendedStock = orderQuantity > 0 ? currentStock + orderQuantity : targetStock;
 
   let riskLevel: 'Low' | 'Medium' | 'High';
   let reasoning = '';
@@ -213,9 +619,9 @@ export function calculateInventoryRecommendation(
   if (currentStock >= recommendedStock * 1.5) {
     riskLevel = 'Medium';
     reasoning = 'Overstock detected. Consider reducing orders or promotional discounts.';
-  } else if (currentStock < forecastedDemand * 0.8) {
+  } else if (currentStock <= reorderPoint) {
     riskLevel = 'High';
-    reasoning = 'Critical stock level. Immediate restocking recommended to avoid stockouts.';
+    reasoning = `Stock is at or below the reorder point of ${reorderPoint} units. Place an order of about ${economicOrderQuantity} units now to cover the ${policy.leadTimeDays}-day lead time.`;
   } else {
     riskLevel = 'Low';
     reasoning = 'Stock levels are optimal. Monitor for seasonal changes.';
@@ -224,7 +630,12 @@ export function calculateInventoryRecommendation(
   return {
     forecastedDemand,
     recommendedStock,
+    orderQuantity,
     safetyStock,
+    reorderPoint,
+    economicOrderQuantity,
+    leadTimeDays: policy.leadTimeDays,
+    serviceLevel: policy.serviceLevel,
     riskLevel,
     reasoning,
   };
@@ -281,6 +692,22 @@ export function generateInsights(
     }
   }
 
+  const upcomingFestivals = forecast.predictions.filter((p) => p.festival);
+  if (upcomingFestivals.length > 0 && forecast.festivalUplift && forecast.festivalUplift > 1) {
+    const first = upcomingFestivals[0];
+    insights.push({
+      type: 'festival',
+      title: `Upcoming: ${first.festival}`,
+      description: `${upcomingFestivals.length} festival day${
+        upcomingFestivals.length > 1 ? 's' : ''
+      } in the forecast window, starting ${first.date}. Demand is forecast ${Math.round(
+        (forecast.festivalUplift - 1) * 100
+      )}% above a normal day.`,
+      actionable: `Have at least ${first.value} units on the shelf before ${first.date}.`,
+      impact: 'positive',
+    });
+  }
+
   const max = Math.max(...values);
   const min = Math.min(...values);
   if (max > overallAvg * 2 || min < overallAvg * 0.3) {
@@ -0,0 +1,108 @@
+import { normalQuantile } from './statistics';
+
+export interface InventoryPolicy {
+  leadTimeDays: number;
+  serviceLevel: number;
+  orderingCost: number;
+  holdingRate: number;
+  casePackSize: number;
+  minimumOrderQuantity: number;
+}
+
+export interface ProductInventorySettings {
+  lead_time_days: number;
+  service_level: number;
+  case_pack_size: number;
+  minimum_order_quantity: number;
+  suppliers?: { lead_time_days: number } | null;
+}
+
+export interface InventoryPolicyResult {
+  averageDailyDemand: number;
+  safetyStock: number;
+  reorderPoint: number;
+  economicOrderQuantity: number;
+}
+
+export const DEFAULT_INVENTORY_POLICY: InventoryPolicy = {
+  leadTimeDays: 7,
+  serviceLevel: 95,
+  orderingCost: 100,
+  holdingRate: 0.15,
+  casePackSize: 1,
+  minimumOrderQuantity: 1,
+};
+
+// A linked supplier's lead time takes precedence over the product's own
+export function productInventoryPolicy(product: ProductInventorySettings): InventoryPolicy {
+  return {
+    ...DEFAULT_INVENTORY_POLICY,
+    leadTimeDays: product.suppliers?.lead_time_days ?? product.lead_time_days,
+    serviceLevel: product.service_level,
+    casePackSize: product.case_pack_size,
+    minimumOrderQuantity: product.minimum_order_quantity,
+  };
+}
+
+export function roundOrderQuantity(
+  quantity: number,
+  casePackSize: number = 1,
+  minimumOrderQuantity: number = 1
+): number {
+  if (quantity <= 0) return 0;
+  const packSize = Math.max(1, casePackSize);
+  return Math.ceil(Math.max(quantity, minimumOrderQuantity) / packSize) * packSize;
+}
+
+export function serviceLevelZ(serviceLevel: number): number {
+  const p = Math.min(Math.max(serviceLevel / 100, 0.5), 0.9999);
+  return normalQuantile(p);
+}
+
+export function calculateSafetyStock(
+  dailyDemandStd: number,
+  leadTimeDays: number,
+  serviceLevel: number
+): number {
+  return Math.ceil(serviceLevelZ(serviceLevel) * dailyDemandStd * Math.sqrt(leadTimeDays));
+}
+
+export function calculateReorderPoint(
+  averageDailyDemand: number,
+  leadTimeDays: number,
+  safetyStock: number
+): number {
+  return Math.ceil(averageDailyDemand * leadTimeDays + safetyStock);
+}
+
+export function calculateEconomicOrderQuantity(
+  annualDemand: number,
+  orderingCost: number,
+  unitHoldingCost: number
+): number {
+  if (annualDemand <= 0) return 0;
+  if (unitHoldingCost <= 0) return Math.ceil(annualDemand / 12);
+  return Math.ceil(Math.sqrt((2 * annualDemand * orderingCost) / unitHoldingCost));
+}
+
+export function calculateInventoryPolicy(
+  averageDailyDemand: number,
+  dailyDemandStd: number,
+  unitPrice: number,
+  policy: InventoryPolicy = DEFAULT_INVENTORY_POLICY
+): InventoryPolicyResult {
+  const safetyStock = calculateSafetyStock(dailyDemandStd, policy.leadTimeDays, policy.serviceLevel);
+  const reorderPoint = calculateReorderPoint(averageDailyDemand, policy.leadTimeDays, safetyStock);
+  const economicOrderQuantity = roundOrderQuantity(
+    calculateEconomicOrderQuantity(averageDailyDemand * 365, policy.orderingCost, unitPrice * policy.holdingRate),
+    policy.casePackSize,
+    policy.minimumOrderQuantity
+  );
+
+  return {
+    averageDailyDemand,
+    safetyStock,
+    reorderPoint,
+    economicOrderQuantity,
+  };
+}
@@ -0,0 +1,84 @@
+export interface KpiSale {
+  product_id: string;
+  date: string;
+  quantity_sold: number;
+  revenue: number;
+}
+
+export interface PeriodComparison {
+  revenue: number;
+  units: number;
+  previousRevenue: number;
+  previousUnits: number;
+  revenueChange: number | null;
+  unitsChange: number | null;
+}
+
+export interface SellerRank {
+  productId: string;
+  units: number;
+  revenue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function shiftDate(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Null when there is nothing to compare against
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+// The current period is the `days` days ending today, compared with the `days` days before it
+export function comparePeriods(sales: KpiSale[], today: string, days: number): PeriodComparison {
+  const periodStart = shiftDate(today, -(days - 1));
+  const previousStart = shiftDate(periodStart, -days);
+  const totals = { revenue: 0, units: 0, previousRevenue: 0, previousUnits: 0 };
+
+  for (const sale of sales) {
+    if (sale.date > today || sale.date < previousStart) continue;
+    if (sale.date >= periodStart) {
+      totals.revenue += Number(sale.revenue);
+      totals.units += sale.quantity_sold;
+    } else {
+      totals.previousRevenue += Number(sale.revenue);
+      totals.previousUnits += sale.quantity_sold;
+    }
+  }
+
+  return {
+    ...totals,
+    revenueChange: percentChange(totals.revenue, totals.previousRevenue),
+    unitsChange: percentChange(totals.units, totals.previousUnits),
+  };
+}
+
+// Every product is ranked, so products with no sales in the period show up as the slowest sellers
+export function rankSellers(
+  sales: KpiSale[],
+  productIds: string[],
+  since: string,
+  limit: number
+): { top: SellerRank[]; bottom: SellerRank[] } {
+  const totals = new Map<string, SellerRank>(
+    productIds.map((productId) => [productId, { productId, units: 0, revenue: 0 }])
+  );
+
+  for (const sale of sales) {
+    const entry = totals.get(sale.product_id);
+    if (!entry || sale.date < since) continue;
+    entry.units += sale.quantity_sold;
+    entry.revenue += Number(sale.revenue);
+  }
+
+  const ranked = [...totals.values()].sort((a, b) => b.units - a.units || b.revenue - a.revenue);
+  const top = ranked.slice(0, limit).filter((seller) => seller.units > 0);
+  const bottom = ranked
+    .slice(Math.max(top.length, ranked.length - limit))
+    .reverse();
+
+  return { top, bottom };
+}
@@ -0,0 +1,135 @@
+import { median, quantile } from './statistics';
+import { SalesDataPoint } from './forecasting';
+
+export type GapFillMethod = 'zero' | 'interpolate';
+
+export type OutlierMethod = 'iqr' | 'mad';
+
+export interface Outlier {
+  date: string;
+  value: number;
+  replacement: number;
+  direction: 'high' | 'low';
+}
+
+export interface PreprocessOptions {
+  gapFill: GapFillMethod;
+  outlierMethod: OutlierMethod;
+}
+
+export interface PreprocessResult {
+  series: SalesDataPoint[];
+  filledDates: string[];
+  outliers: Outlier[];
+}
+
+export const IQR_MULTIPLIER = 1.5;
+export const MAD_THRESHOLD = 3.5;
+
+// Scales the MAD so the modified z-score is comparable to a standard z-score
+const MAD_SCALE = 0.6745;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+const fromDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+export function fillMissingDates(
+  data: SalesDataPoint[],
+  method: GapFillMethod
+): { series: SalesDataPoint[]; filledDates: string[] } {
+  if (data.length === 0) return { series: [], filledDates: [] };
+
+  const sorted = [...data].sort((a, b) => a.date.localeCompare(b.date));
+  const series: SalesDataPoint[] = [];
+  const filledDates: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const point = sorted[i];
+    const previous = series[series.length - 1];
+
+    if (previous) {
+      const gap = Math.round((toDate(point.date) - toDate(previous.date)) / DAY_MS);
+      for (let step = 1; step < gap; step++) {
+        const date = fromDate(toDate(previous.date) + step * DAY_MS);
+        const value =
+          method === 'interpolate'
+            ? Math.round(previous.quantity_sold + ((point.quantity_sold - previous.quantity_sold) * step) / gap)
+            : 0;
+        series.push({ date, quantity_sold: value, is_festival: false });
+        filledDates.push(date);
+      }
+    }
+
+    series.push(point);
+  }
+
+  return { series, filledDates };
+}
+
+function outlierBounds(values: number[], method: OutlierMethod): { lower: number; upper: number } | null {
+  if (method === 'iqr') {
+    const q1 = quantile(values, 0.25);
+    const q3 = quantile(values, 0.75);
+    const iqr = q3 - q1;
+    if (iqr === 0) return null;
+    return { lower: q1 - IQR_MULTIPLIER * iqr, upper: q3 + IQR_MULTIPLIER * iqr };
+  }
+
+  const center = median(values);
+  const mad = median(values.map((v) => Math.abs(v - center)));
+  if (mad === 0) return null;
+  const spread = (MAD_THRESHOLD * mad) / MAD_SCALE;
+  return { lower: center - spread, upper: center + spread };
+}
+
+// Festival spikes are handled by the festival uplift, so festival days are never flagged
+export function detectOutliers(
+  series: SalesDataPoint[],
+  method: OutlierMethod,
+  ignoreDates: string[] = []
+): Outlier[] {
+  const ignored = new Set(ignoreDates);
+  const candidates = series.filter((d) => !d.is_festival && !ignored.has(d.date));
+  if (candidates.length < 4) return [];
+
+  const bounds = outlierBounds(
+    candidates.map((d) => d.quantity_sold),
+    method
+  );
+  if (!bounds) return [];
+
+  return candidates
+    .filter((d) => d.quantity_sold > bounds.upper || d.quantity_sold < bounds.lower)
+    .map((d) => {
+      const high = d.quantity_sold > bounds.upper;
+      return {
+        date: d.date,
+        value: d.quantity_sold,
+        replacement: Math.max(0, high ? Math.floor(bounds.upper) : Math.ceil(bounds.lower)),
+        direction: high ? 'high' : 'low',
+      };
+    });
+}
+
+export function preprocessSales(data: SalesDataPoint[], options: PreprocessOptions): PreprocessResult {
+  const { series, filledDates } = fillMissingDates(data, options.gapFill);
+  return {
+    series,
+    filledDates,
+    outliers: detectOutliers(series, options.outlierMethod, filledDates),
+  };
+}
+
+export function applyOutlierCorrections(
+  series: SalesDataPoint[],
+  outliers: Outlier[],
+  acceptedDates: Set<string>
+): SalesDataPoint[] {
+  const replacements = new Map(
+    outliers.filter((o) => acceptedDates.has(o.date)).map((o) => [o.date, o.replacement])
+  );
+  return series.map((d) =>
+    replacements.has(d.date) ? { ...d, quantity_sold: replacements.get(d.date) as number } : d
+  );
+}
@@ -0,0 +1,84 @@
+import { roundOrderQuantity } from './inventory';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received';
+
+export interface ReplenishmentProduct {
+  id: string;
+  name: string;
+  brand: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  currentStock: number;
+  recommendedStock: number | null;
+  onOrder: number;
+  casePackSize: number;
+  minimumOrderQuantity: number;
+}
+
+export interface OrderLine {
+  productId: string;
+  name: string;
+  recommendedStock: number;
+  currentStock: number;
+  onOrder: number;
+  casePackSize: number;
+  quantity: number;
+}
+
+export interface OrderSuggestion {
+  supplierId: string | null;
+  supplier: string;
+  lines: OrderLine[];
+}
+
+// Draft and sent orders both count as on order, so regenerating suggestions never double-orders
+export const OPEN_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent'];
+
+export function calculateOrderQuantity(
+  recommendedStock: number,
+  currentStock: number,
+  onOrder: number,
+  casePackSize: number = 1,
+  minimumOrderQuantity: number = 1
+): number {
+  return roundOrderQuantity(recommendedStock - currentStock - onOrder, casePackSize, minimumOrderQuantity);
+}
+
+// Products without a supplier are grouped by brand
+export function buildOrderSuggestions(products: ReplenishmentProduct[]): OrderSuggestion[] {
+  const groups = new Map<string, OrderSuggestion>();
+
+  for (const product of products) {
+    if (product.recommendedStock === null) continue;
+
+    const quantity = calculateOrderQuantity(
+      product.recommendedStock,
+      product.currentStock,
+      product.onOrder,
+      product.casePackSize,
+      product.minimumOrderQuantity
+    );
+    if (quantity === 0) continue;
+
+    const key = product.supplierId ?? `brand:${product.brand}`;
+    const group = groups.get(key) ?? {
+      supplierId: product.supplierId,
+      supplier: product.supplierName ?? product.brand,
+      lines: [],
+    };
+    group.lines.push({
+      productId: product.id,
+      name: product.name,
+      recommendedStock: product.recommendedStock,
+      currentStock: product.currentStock,
+      onOrder: product.onOrder,
+      casePackSize: product.casePackSize,
+      quantity,
+    });
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, lines: group.lines.sort((a, b) => a.name.localeCompare(b.name)) }))
+    .sort((a, b) => a.supplier.localeCompare(b.supplier));
+}
@@ -0,0 +1,199 @@
+import { applyColumnMapping, parseFestivalFlag, ColumnMapping, MappedRow, ParsedCSV } from './csv';
+
+export interface ValidSalesRow {
+  rowNumber: number;
+  productId: string;
+  date: string;
+  quantitySold: number;
+  revenue: number;
+  isFestival: boolean;
+}
+
+export interface RejectedSalesRow {
+  rowNumber: number;
+  values: string[];
+  reasons: string[];
+}
+
+export interface SalesValidation {
+  valid: ValidSalesRow[];
+  rejected: RejectedSalesRow[];
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const DAY_FIRST_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+export function normalizeDate(value: string): string | null {
+  const iso = value.match(ISO_DATE);
+  const dayFirst = value.match(DAY_FIRST_DATE);
+  const parts = iso
+    ? { year: +iso[1], month: +iso[2], day: +iso[3] }
+    : dayFirst
+    ? { year: +dayFirst[3], month: +dayFirst[2], day: +dayFirst[1] }
+    : null;
+
+  if (!parts) return null;
+
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  if (
+    date.getUTCFullYear() !== parts.year ||
+    date.getUTCMonth() !== parts.month - 1 ||
+    date.getUTCDate() !== parts.day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+function validateRow(
+  row: MappedRow,
+  today: string,
+  resolveProductId: (row: MappedRow) => string | null
+): { reasons: string[]; parsed: Omit<ValidSalesRow, 'rowNumber' | 'productId'> } {
+  const reasons: string[] = [];
+
+  const date = row.date ? normalizeDate(row.date) : null;
+  if (!row.date) {
+    reasons.push('Missing date');
+  } else if (!date) {
+    reasons.push(`Invalid date "${row.date}" (use YYYY-MM-DD or DD/MM/YYYY)`);
+  } else if (date > today) {
+    reasons.push(`Date ${date} is in the future`);
+  }
+
+  const quantity = Number(row.quantity_sold);
+  if (!row.quantity_sold) {
+    reasons.push('Missing quantity');
+  } else if (!Number.isFinite(quantity)) {
+    reasons.push(`Quantity "${row.quantity_sold}" is not a number`);
+  } else if (quantity < 0) {
+    reasons.push('Quantity cannot be negative');
+  } else if (!Number.isInteger(quantity)) {
+    reasons.push('Quantity must be a whole number');
+  }
+
+  const revenue = row.revenue ? Number(row.revenue.replace(/[₹,\s]/g, '')) : 0;
+  if (!Number.isFinite(revenue)) {
+    reasons.push(`Revenue "${row.revenue}" is not a number`);
+  } else if (revenue < 0) {
+    reasons.push('Revenue cannot be negative');
+  }
+
+  if (!resolveProductId(row)) {
+    reasons.push(row.product_name ? `Product "${row.product_name}" not found` : 'Missing product');
+  }
+
+  return {
+    reasons,
+    parsed: {
+      date: date ?? '',
+      quantitySold: quantity,
+      revenue,
+      isFestival: parseFestivalFlag(row.is_festival),
+    },
+  };
+}
+
+// `today` is the shop's local date, so rows for the shop's own today are never treated as future-dated
+export function validateSalesRows(
+  parsed: ParsedCSV,
+  mapping: ColumnMapping,
+  resolveProductId: (row: MappedRow) => string | null,
+  today: string
+): SalesValidation {
+  const valid: ValidSalesRow[] = [];
+  const rejected: RejectedSalesRow[] = [];
+
+  applyColumnMapping(parsed, mapping).forEach((row, index) => {
+    const rowNumber = index + 1;
+    const { reasons, parsed: values } = validateRow(row, today, resolveProductId);
+
+    if (reasons.length > 0) {
+      rejected.push({ rowNumber, values: parsed.rows[index], reasons });
+    } else {
+      valid.push({ rowNumber, productId: resolveProductId(row) as string, ...values });
+    }
+  });
+
+  return { valid, rejected };
+}
+
+export type DuplicateMode = 'skip' | 'overwrite' | 'sum';
+
+export interface SalesRecord {
+  product_id: string;
+  date: string;
+  quantity_sold: number;
+  revenue: number;
+  is_festival: boolean;
+  batch_id?: string | null;
+}
+
+export interface SalesUpsertPlan {
+  inserts: SalesRecord[];
+  updates: SalesRecord[];
+  skipped: SalesRecord[];
+  replaced: SalesRecord[];
+}
+
+const recordKey = (record: { product_id: string; date: string }) => `${record.product_id}|${record.date}`;
+
+export function mergeSameDayRows(rows: ValidSalesRow[]): SalesRecord[] {
+  const merged = new Map<string, SalesRecord>();
+
+  for (const row of rows) {
+    const record: SalesRecord = {
+      product_id: row.productId,
+      date: row.date,
+      quantity_sold: row.quantitySold,
+      revenue: row.revenue,
+      is_festival: row.isFestival,
+    };
+    const existing = merged.get(recordKey(record));
+    merged.set(
+      recordKey(record),
+      existing
+        ? {
+            ...existing,
+            quantity_sold: existing.quantity_sold + record.quantity_sold,
+            revenue: existing.revenue + record.revenue,
+            is_festival: existing.is_festival || record.is_festival,
+          }
+        : record
+    );
+  }
+
+  return [...merged.values()];
+}
+
+export function planSalesUpsert(
+  incoming: SalesRecord[],
+  existing: SalesRecord[],
+  mode: DuplicateMode
+): SalesUpsertPlan {
+  const existingByKey = new Map(existing.map((record) => [recordKey(record), record]));
+  const plan: SalesUpsertPlan = { inserts: [], updates: [], skipped: [], replaced: [] };
+
+  for (const record of incoming) {
+    const current = existingByKey.get(recordKey(record));
+    if (!current) {
+      plan.inserts.push(record);
+    } else if (mode === 'skip') {
+      plan.skipped.push(record);
+    } else if (mode === 'overwrite') {
+      plan.updates.push(record);
+      plan.replaced.push(current);
+    } else {
+      plan.replaced.push(current);
+      plan.updates.push({
+        ...record,
+        quantity_sold: current.quantity_sold + record.quantity_sold,
+        revenue: Number(current.revenue) + record.revenue,
+        is_festival: current.is_festival || record.is_festival,
+      });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,61 @@
+export const SHOP_CATEGORIES = [
+  'Stationery',
+  'Grocery',
+  'Electronics',
+  'Fashion',
+  'Home & Kitchen',
+  'Books',
+  'Sports',
+  'Toys',
+  'Other',
+];
+
+export const CURRENCIES = [
+  { code: 'INR', label: 'Indian Rupee' },
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'AED', label: 'UAE Dirham' },
+  { code: 'SGD', label: 'Singapore Dollar' },
+  { code: 'LKR', label: 'Sri Lankan Rupee' },
+  { code: 'NPR', label: 'Nepalese Rupee' },
+  { code: 'BDT', label: 'Bangladeshi Taka' },
+];
+
+export const TIMEZONES = [
+  'Asia/Kolkata',
+  'Asia/Colombo',
+  'Asia/Kathmandu',
+  'Asia/Dhaka',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles',
+  'UTC',
+];
+
+export const HORIZON_OPTIONS = [7, 14, 30, 90];
+
+// Narrow symbol such as ₹ or $, falling back to the ISO code for unknown currencies
+export function currencySymbol(currency: string): string {
+  try {
+    return (
+      new Intl.NumberFormat('en-IN', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+        .formatToParts(0)
+        .find((part) => part.type === 'currency')?.value ?? currency
+    );
+  } catch {
+    return currency;
+  }
+}
+
+// Calendar date (YYYY-MM-DD) in the shop's time zone rather than UTC
+export function todayIn(timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+  } catch {
+    return new Date().toISOString().split('T')[0];
+  }
+}
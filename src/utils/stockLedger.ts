@@ -0,0 +1,61 @@
+export type StockMovementType =
+  | 'sale'
+  | 'receipt'
+  | 'adjustment'
+  | 'return'
+  | 'damage'
+  | 'transfer_out'
+  | 'transfer_in';
+
+export interface StockTransaction {
+  id: string;
+  type: StockMovementType;
+  quantity: number;
+  created_at: string;
+}
+
+export interface StockLevelPoint {
+  date: string;
+  stock: number;
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  receipt: 'Purchase receipt',
+  adjustment: 'Stock count adjustment',
+  return: 'Customer return',
+  damage: 'Damaged / written off',
+  transfer_out: 'Transfer to another shop',
+  transfer_in: 'Transfer from another shop',
+};
+
+// Transfers are only posted when a stock transfer is completed
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ['sale', 'receipt', 'adjustment', 'return', 'damage'];
+
+// Sales, damage and outgoing transfers take stock out, receipts, returns and incoming transfers put it back;
+// adjustments carry their own sign
+export function signedQuantity(type: StockMovementType, quantity: number): number {
+  if (type === 'sale' || type === 'damage' || type === 'transfer_out') return -Math.abs(quantity);
+  if (type === 'receipt' || type === 'return' || type === 'transfer_in') return Math.abs(quantity);
+  return quantity;
+}
+
+// Running balance at the end of each day that had a movement, oldest first
+export function buildStockHistory(transactions: StockTransaction[]): StockLevelPoint[] {
+  const sorted = [...transactions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const points: StockLevelPoint[] = [];
+  let stock = 0;
+
+  for (const transaction of sorted) {
+    stock += transaction.quantity;
+    const date = transaction.created_at.slice(0, 10);
+    const last = points[points.length - 1];
+    if (last?.date === date) {
+      last.stock = stock;
+    } else {
+      points.push({ date, stock });
+    }
+  }
+
+  return points;
+}
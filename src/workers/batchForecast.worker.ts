@@ -0,0 +1,29 @@
+import {
+  forecastProduct,
+  BatchForecastRequest,
+  BatchForecastMessage,
+  BatchForecastOutcome,
+} from '../utils/batchForecast';
+
+const post = (message: BatchForecastMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<BatchForecastRequest>) => {
+  const { products, horizon, festivals, today } = event.data;
+
+  products.forEach((product, index) => {
+    // A product that fails is reported in its own row so the rest of the run still completes
+    let outcome: BatchForecastOutcome;
+    try {
+      outcome = forecastProduct(product, horizon, festivals, today);
+    } catch (err) {
+      outcome = {
+        productId: product.id,
+        status: 'failed',
+        reason: err instanceof Error ? err.message : 'Forecasting failed',
+      };
+    }
+
+    post({ type: 'progress', completed: index + 1, total: products.length, outcome });
+  });
+  post({ type: 'done' });
+};
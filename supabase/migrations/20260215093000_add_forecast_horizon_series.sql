@@ -0,0 +1,20 @@
+/*
+  # Multi-day forecast horizon
+
+  ## Modified Tables
+
+  ### `forecasts`
+  - `run_id` (uuid) - Groups the daily rows produced by one forecast run
+  - `horizon_days` (integer) - Number of future days forecasted in the run
+
+  ## Notes
+  - Each forecast run now stores one row per future day, so `predicted_demand`
+    holds that day's demand while `recommended_stock`, `safety_stock` and
+    `risk_level` describe the whole horizon
+  - Existing single-day rows are treated as runs with a 1-day horizon
+*/
+
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS run_id uuid DEFAULT gen_random_uuid() NOT NULL;
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS horizon_days integer DEFAULT 1 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS forecasts_run_id_idx ON forecasts(run_id);
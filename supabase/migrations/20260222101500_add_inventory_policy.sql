@@ -0,0 +1,25 @@
+/*
+  # Service-level inventory policy
+
+  ## Modified Tables
+
+  ### `products`
+  - `lead_time_days` (integer) - Days between placing and receiving an order
+  - `service_level` (decimal) - Target probability (%) of not stocking out during lead time
+
+  ### `forecasts`
+  - `reorder_point` (integer) - Stock level at which a new order should be placed
+  - `economic_order_quantity` (integer) - Cost-optimal order size
+
+  ## Notes
+  - Safety stock is now z * sigma * sqrt(lead time) for the product's service level
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS lead_time_days integer DEFAULT 7 NOT NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS service_level decimal(5,2) DEFAULT 95 NOT NULL;
+
+ALTER TABLE products ADD CONSTRAINT products_lead_time_days_check CHECK (lead_time_days >= 0);
+ALTER TABLE products ADD CONSTRAINT products_service_level_check CHECK (service_level >= 50 AND service_level < 100);
+
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS reorder_point integer DEFAULT 0 NOT NULL;
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS economic_order_quantity integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,81 @@
+/*
+  # Festival calendar
+
+  ## New Tables
+
+  ### `festival_calendar`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `name` (text) - Festival or event name (Diwali, Pongal, School Reopening, etc.)
+  - `date` (date) - Day the event falls on
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Enable RLS
+  - Users can only manage calendar entries for their own shops
+*/
+
+CREATE TABLE IF NOT EXISTS festival_calendar (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  date date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (shop_id, date, name)
+);
+
+ALTER TABLE festival_calendar ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view festival calendar from own shops"
+  ON festival_calendar FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = festival_calendar.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create festival calendar entries for own shops"
+  ON festival_calendar FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = festival_calendar.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update festival calendar entries for own shops"
+  ON festival_calendar FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = festival_calendar.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = festival_calendar.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete festival calendar entries from own shops"
+  ON festival_calendar FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = festival_calendar.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS festival_calendar_shop_id_idx ON festival_calendar(shop_id);
+CREATE INDEX IF NOT EXISTS festival_calendar_date_idx ON festival_calendar(date);
@@ -0,0 +1,12 @@
+/*
+  # Remembered CSV column mapping
+
+  ## Modified Tables
+
+  ### `shops`
+  - `import_mapping` (jsonb) - Last CSV column mapping used for sales uploads,
+    keyed by import field (`date`, `quantity_sold`, `revenue`, `is_festival`,
+    `product_name`, `brand`) with the file header as value
+*/
+
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS import_mapping jsonb;
@@ -0,0 +1,45 @@
+/*
+  # One sales row per product per day
+
+  ## Modified Tables
+
+  ### `sales_data`
+  - Unique constraint on (`product_id`, `date`) so re-uploading a file can no
+    longer double the history
+
+  ## Notes
+  - Existing duplicates (typically from uploading the same file twice) are
+    merged first, the same way the importer merges repeated rows in a file:
+    quantities and revenue are summed and the day is a festival day if any
+    row says so. The earliest uploaded row (then lowest id) keeps the totals
+    and the others are removed
+*/
+
+WITH merged AS (
+  SELECT
+    (array_agg(id ORDER BY created_at NULLS LAST, id))[1] AS keep_id,
+    sum(quantity_sold) AS quantity_sold,
+    sum(coalesce(revenue, 0)) AS revenue,
+    bool_or(coalesce(is_festival, false)) AS is_festival
+  FROM sales_data
+  GROUP BY product_id, date
+  HAVING count(*) > 1
+)
+UPDATE sales_data
+SET quantity_sold = merged.quantity_sold,
+    revenue = merged.revenue,
+    is_festival = merged.is_festival
+FROM merged
+WHERE sales_data.id = merged.keep_id;
+
+DELETE FROM sales_data
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY product_id, date ORDER BY created_at NULLS LAST, id) AS position
+    FROM sales_data
+  ) ranked
+  WHERE position > 1
+);
+
+ALTER TABLE sales_data
+  ADD CONSTRAINT sales_data_product_id_date_key UNIQUE (product_id, date);
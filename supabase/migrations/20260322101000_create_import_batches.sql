@@ -0,0 +1,143 @@
+/*
+  # Import batches
+
+  ## New Tables
+
+  ### `import_batches`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `uploaded_by` (uuid, references auth.users) - User who ran the import
+  - `file_name` (text) - Name of the uploaded file
+  - `product_ids` (uuid[]) - Products the file contained rows for
+  - `inserted_rows` (integer) - New product days added
+  - `updated_rows` (integer) - Existing product days overwritten or added to
+  - `skipped_rows` (integer) - Existing product days left untouched
+  - `rejected_rows` (integer) - File rows that failed validation
+  - `replaced_rows` (jsonb) - Previous values of updated product days, restored on rollback
+  - `rolled_back_at` (timestamptz) - Set once the batch has been rolled back
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `sales_data`
+  - `batch_id` (uuid, references import_batches) - Import that last wrote the row
+
+  ## Functions
+  - `rollback_import_batch(batch_id)` removes the rows a batch wrote and restores
+    the values it replaced, in one transaction
+
+  ## Security
+  - Enable RLS
+  - Users can only view and manage import batches for their own shops
+*/
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  file_name text NOT NULL,
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  inserted_rows integer NOT NULL DEFAULT 0,
+  updated_rows integer NOT NULL DEFAULT 0,
+  skipped_rows integer NOT NULL DEFAULT 0,
+  rejected_rows integer NOT NULL DEFAULT 0,
+  replaced_rows jsonb NOT NULL DEFAULT '[]',
+  rolled_back_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sales_data
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import batches from own shops"
+  ON import_batches FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = import_batches.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create import batches for own shops"
+  ON import_batches FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = import_batches.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update import batches for own shops"
+  ON import_batches FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = import_batches.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = import_batches.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete import batches from own shops"
+  ON import_batches FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = import_batches.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION rollback_import_batch(p_batch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_batch import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch FROM import_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch not found';
+  END IF;
+
+  IF v_batch.rolled_back_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Import batch has already been rolled back';
+  END IF;
+
+  DELETE FROM sales_data WHERE batch_id = p_batch_id;
+
+  -- Days a later import has written to since are left alone
+  INSERT INTO sales_data (product_id, shop_id, date, quantity_sold, revenue, is_festival, batch_id)
+  SELECT r.product_id, v_batch.shop_id, r.date, r.quantity_sold, r.revenue, r.is_festival, r.batch_id
+  FROM jsonb_to_recordset(v_batch.replaced_rows) AS r(
+    product_id uuid,
+    date date,
+    quantity_sold integer,
+    revenue decimal(10,2),
+    is_festival boolean,
+    batch_id uuid
+  )
+  ON CONFLICT (product_id, date) DO NOTHING;
+
+  UPDATE import_batches SET rolled_back_at = now() WHERE id = p_batch_id;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS import_batches_shop_id_idx ON import_batches(shop_id);
+CREATE INDEX IF NOT EXISTS sales_data_batch_id_idx ON sales_data(batch_id);
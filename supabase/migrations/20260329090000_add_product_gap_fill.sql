@@ -0,0 +1,13 @@
+/*
+  # Per-product gap filling
+
+  ## Modified Tables
+
+  ### `products`
+  - `gap_fill` (text) - How days without sales rows are filled before forecasting:
+    `zero` (the shop was open and nothing sold) or `interpolate` (the day was not recorded)
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS gap_fill text DEFAULT 'zero' NOT NULL;
+
+ALTER TABLE products ADD CONSTRAINT products_gap_fill_check CHECK (gap_fill IN ('zero', 'interpolate'));
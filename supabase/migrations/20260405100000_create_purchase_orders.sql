@@ -0,0 +1,210 @@
+/*
+  # Purchase orders
+
+  ## New Tables
+
+  ### `purchase_orders`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `supplier` (text) - Brand or supplier the order is placed with
+  - `status` (text) - draft, sent or received
+  - `notes` (text)
+  - `sent_at` (timestamptz)
+  - `received_at` (timestamptz)
+  - `created_at` (timestamptz)
+
+  ### `purchase_order_items`
+  - `id` (uuid, primary key)
+  - `purchase_order_id` (uuid, references purchase_orders)
+  - `product_id` (uuid, references products)
+  - `quantity` (integer) - Units ordered
+  - `created_at` (timestamptz)
+
+  ## New Views
+
+  ### `latest_product_forecasts`
+  - Most recent forecast row per product, used as the source of `recommended_stock`
+
+  ## Functions
+  - `receive_purchase_order(order_id)` marks an order received and adds its
+    quantities to `products.current_stock` in one transaction
+
+  ## Security
+  - Enable RLS on both tables
+  - Users can only manage purchase orders for their own shops
+*/
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  supplier text NOT NULL,
+  status text DEFAULT 'draft' NOT NULL CHECK (status IN ('draft', 'sent', 'received')),
+  notes text,
+  sent_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (purchase_order_id, product_id)
+);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for purchase_orders
+CREATE POLICY "Users can view purchase orders from own shops"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = purchase_orders.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create purchase orders for own shops"
+  ON purchase_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = purchase_orders.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update purchase orders for own shops"
+  ON purchase_orders FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = purchase_orders.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = purchase_orders.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete purchase orders from own shops"
+  ON purchase_orders FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = purchase_orders.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+-- RLS Policies for purchase_order_items
+CREATE POLICY "Users can view purchase order items from own shops"
+  ON purchase_order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN shops ON shops.id = purchase_orders.shop_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create purchase order items for own shops"
+  ON purchase_order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN shops ON shops.id = purchase_orders.shop_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update purchase order items for own shops"
+  ON purchase_order_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN shops ON shops.id = purchase_orders.shop_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN shops ON shops.id = purchase_orders.shop_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete purchase order items from own shops"
+  ON purchase_order_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN shops ON shops.id = purchase_orders.shop_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  UPDATE purchase_orders
+  SET status = 'received', received_at = now()
+  WHERE id = p_order_id AND status <> 'received';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found or already received';
+  END IF;
+
+  UPDATE products
+  SET current_stock = products.current_stock + purchase_order_items.quantity,
+      updated_at = now()
+  FROM purchase_order_items
+  WHERE purchase_order_items.purchase_order_id = p_order_id
+  AND purchase_order_items.product_id = products.id;
+END;
+$$;
+
+CREATE OR REPLACE VIEW latest_product_forecasts
+WITH (security_invoker = on) AS
+SELECT DISTINCT ON (product_id)
+  product_id,
+  shop_id,
+  run_id,
+  recommended_stock,
+  safety_stock,
+  reorder_point,
+  economic_order_quantity,
+  risk_level,
+  created_at
+FROM forecasts
+ORDER BY product_id, created_at DESC;
+
+CREATE INDEX IF NOT EXISTS purchase_orders_shop_id_idx ON purchase_orders(shop_id);
+CREATE INDEX IF NOT EXISTS purchase_orders_status_idx ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS purchase_order_items_purchase_order_id_idx ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_order_items_product_id_idx ON purchase_order_items(product_id);
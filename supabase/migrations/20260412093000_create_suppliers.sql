@@ -0,0 +1,111 @@
+/*
+  # Suppliers
+
+  ## New Tables
+
+  ### `suppliers`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `name` (text) - Distributor or wholesaler name
+  - `contact_name` (text)
+  - `phone` (text)
+  - `lead_time_days` (integer) - Days between placing an order and receiving it
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `products`
+  - `supplier_id` (uuid, references suppliers) - Who the product is bought from
+  - `minimum_order_quantity` (integer) - Smallest quantity the supplier accepts
+  - `case_pack_size` (integer) - Units per case; orders are rounded up to whole cases
+  - `cost_price` (decimal) - Purchase price per unit
+
+  ### `purchase_orders`
+  - `supplier_id` (uuid, references suppliers)
+
+  ## Notes
+  - When a product has a supplier, the supplier's lead time is used instead of
+    `products.lead_time_days`
+
+  ## Security
+  - Enable RLS
+  - Users can only manage suppliers for their own shops
+*/
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  contact_name text,
+  phone text,
+  lead_time_days integer DEFAULT 7 NOT NULL CHECK (lead_time_days >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (shop_id, name)
+);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS minimum_order_quantity integer DEFAULT 1 NOT NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS case_pack_size integer DEFAULT 1 NOT NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cost_price decimal(10,2) DEFAULT 0 NOT NULL;
+
+ALTER TABLE products ADD CONSTRAINT products_minimum_order_quantity_check CHECK (minimum_order_quantity >= 1);
+ALTER TABLE products ADD CONSTRAINT products_case_pack_size_check CHECK (case_pack_size >= 1);
+ALTER TABLE products ADD CONSTRAINT products_cost_price_check CHECK (cost_price >= 0);
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suppliers from own shops"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = suppliers.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create suppliers for own shops"
+  ON suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = suppliers.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update suppliers for own shops"
+  ON suppliers FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = suppliers.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = suppliers.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete suppliers from own shops"
+  ON suppliers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = suppliers.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS suppliers_shop_id_idx ON suppliers(shop_id);
+CREATE INDEX IF NOT EXISTS products_supplier_id_idx ON products(supplier_id);
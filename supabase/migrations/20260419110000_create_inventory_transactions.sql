@@ -0,0 +1,156 @@
+/*
+  # Inventory transactions ledger
+
+  ## New Tables
+
+  ### `inventory_transactions`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `product_id` (uuid, references products)
+  - `type` (text) - sale, receipt, adjustment, return or damage
+  - `quantity` (integer) - Signed stock change: negative for sales and damage,
+    positive for receipts and returns, either sign for adjustments
+  - `note` (text)
+  - `purchase_order_id` (uuid, references purchase_orders) - Set for receipts
+  - `created_by` (uuid, references auth.users) - User who recorded the movement
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `products`
+  - `current_stock` is now derived from the ledger: a trigger applies every
+    transaction to it, and direct edits to the column are rejected. New
+    products start at zero; opening stock is posted as an adjustment
+
+  ## Functions
+  - `receive_purchase_order(order_id)` now posts a receipt transaction per item
+
+  ## Notes
+  - Existing stock levels are carried over as an "Opening balance" adjustment
+
+  ## Security
+  - Enable RLS
+  - Users can view and record transactions for their own shops; the ledger is
+    append-only, so there are no update or delete policies
+*/
+
+CREATE TABLE IF NOT EXISTS inventory_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('sale', 'receipt', 'adjustment', 'return', 'damage')),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  note text,
+  purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (type IN ('sale', 'damage') AND quantity < 0)
+    OR (type IN ('receipt', 'return') AND quantity > 0)
+    OR type = 'adjustment'
+  )
+);
+
+INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note, created_by)
+SELECT products.shop_id, products.id, 'adjustment', products.current_stock, 'Opening balance', shops.owner_id
+FROM products
+JOIN shops ON shops.id = products.shop_id
+WHERE products.current_stock <> 0;
+
+ALTER TABLE inventory_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inventory transactions from own shops"
+  ON inventory_transactions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = inventory_transactions.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record inventory transactions for own shops"
+  ON inventory_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = inventory_transactions.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION apply_inventory_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('salesy.ledger_write', 'on', true);
+
+  UPDATE products
+  SET current_stock = current_stock + NEW.quantity,
+      updated_at = now()
+  WHERE id = NEW.product_id
+  AND shop_id = NEW.shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % does not belong to shop %', NEW.product_id, NEW.shop_id;
+  END IF;
+
+  PERFORM set_config('salesy.ledger_write', 'off', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER inventory_transactions_apply
+  AFTER INSERT ON inventory_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_inventory_transaction();
+
+CREATE OR REPLACE FUNCTION guard_current_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous integer := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.current_stock END;
+BEGIN
+  IF NEW.current_stock IS DISTINCT FROM v_previous
+    AND coalesce(current_setting('salesy.ledger_write', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'current_stock is derived from inventory_transactions; record a stock movement instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_guard_current_stock
+  BEFORE INSERT OR UPDATE OF current_stock ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_current_stock();
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  UPDATE purchase_orders
+  SET status = 'received', received_at = now()
+  WHERE id = p_order_id AND status <> 'received';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found or already received';
+  END IF;
+
+  INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note, purchase_order_id)
+  SELECT purchase_orders.shop_id, purchase_order_items.product_id, 'receipt', purchase_order_items.quantity,
+    'Purchase order from ' || purchase_orders.supplier, purchase_orders.id
+  FROM purchase_order_items
+  JOIN purchase_orders ON purchase_orders.id = purchase_order_items.purchase_order_id
+  WHERE purchase_order_items.purchase_order_id = p_order_id;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_shop_id_idx ON inventory_transactions(shop_id);
+CREATE INDEX IF NOT EXISTS inventory_transactions_product_id_created_at_idx
+  ON inventory_transactions(product_id, created_at);
@@ -0,0 +1,243 @@
+/*
+  # Post recorded sales against inventory
+
+  ## Modified Tables
+
+  ### `shops`
+  - `post_sales_from` (date) - When set, sales dated on or after this day are
+    posted to the stock ledger as they are recorded; null turns posting off
+
+  ## New Tables
+
+  ### `stock_counts`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `product_id` (uuid, references products)
+  - `counted_quantity` (integer) - Units physically counted on the shelf
+  - `ledger_quantity` (integer) - Ledger stock when the count was recorded, filled
+    in by a trigger
+  - `adjustment_id` (uuid, references inventory_transactions) - Adjustment that
+    reconciled the count, if one was posted
+  - `counted_by` (uuid, references auth.users)
+  - `counted_at` (timestamptz)
+
+  ## New Views
+  - `stock_reconciliation` - Every product with its latest count and the
+    variance between counted and ledger stock
+
+  ## Functions
+  - `reconcile_stock_count(count_id)` - Posts the count's variance as an
+    adjustment and links it to the count
+
+  ## Triggers
+  - Inserting, updating or deleting `sales_data` posts the change in quantity
+    sold to `inventory_transactions` for shops with posting turned on. Sales are
+    posted as `sale` movements; reductions and deletions are posted back as
+    adjustments
+
+  ## Security
+  - Enable RLS on `stock_counts`
+  - Users can only access counts for their own shops
+*/
+
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS post_sales_from date;
+
+CREATE OR REPLACE FUNCTION post_sales_to_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shop_id uuid;
+  v_from date;
+  v_old integer := 0;
+  v_new integer := 0;
+BEGIN
+  -- Sales removed because their product is being deleted have no stock left to correct
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM products WHERE id = OLD.product_id) THEN
+    RETURN NULL;
+  END IF;
+
+  v_shop_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.shop_id ELSE NEW.shop_id END;
+  SELECT post_sales_from INTO v_from FROM shops WHERE id = v_shop_id;
+
+  IF v_from IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND OLD.date >= v_from THEN
+    v_old := OLD.quantity_sold;
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.date >= v_from THEN
+    v_new := NEW.quantity_sold;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.product_id <> NEW.product_id THEN
+    IF v_old <> 0 THEN
+      INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note)
+      VALUES (v_shop_id, OLD.product_id, 'adjustment', v_old, 'Sales for ' || OLD.date || ' moved to another product');
+    END IF;
+    v_old := 0;
+  END IF;
+
+  IF v_old - v_new < 0 THEN
+    INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note)
+    VALUES (v_shop_id, NEW.product_id, 'sale', v_old - v_new, 'Sales for ' || NEW.date);
+  ELSIF v_old - v_new > 0 THEN
+    INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note)
+    VALUES (
+      v_shop_id,
+      CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END,
+      'adjustment',
+      v_old - v_new,
+      'Sales for ' || CASE WHEN TG_OP = 'DELETE' THEN OLD.date ELSE NEW.date END || ' corrected'
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sales_data_post_to_inventory
+  AFTER INSERT OR UPDATE OF product_id, date, quantity_sold OR DELETE ON sales_data
+  FOR EACH ROW
+  EXECUTE FUNCTION post_sales_to_inventory();
+
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  counted_quantity integer NOT NULL CHECK (counted_quantity >= 0),
+  ledger_quantity integer NOT NULL,
+  adjustment_id uuid REFERENCES inventory_transactions(id) ON DELETE SET NULL,
+  counted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  counted_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view stock counts from own shops"
+  ON stock_counts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = stock_counts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert stock counts to own shops"
+  ON stock_counts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = stock_counts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update stock counts in own shops"
+  ON stock_counts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = stock_counts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = stock_counts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete stock counts from own shops"
+  ON stock_counts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = stock_counts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION snapshot_ledger_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT current_stock INTO NEW.ledger_quantity FROM products WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stock_counts_snapshot_ledger
+  BEFORE INSERT ON stock_counts
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_ledger_quantity();
+
+CREATE INDEX IF NOT EXISTS stock_counts_product_id_counted_at_idx
+  ON stock_counts(product_id, counted_at DESC);
+
+CREATE OR REPLACE VIEW stock_reconciliation
+WITH (security_invoker = on) AS
+SELECT
+  products.id AS product_id,
+  products.shop_id,
+  products.name,
+  products.brand,
+  products.current_stock AS ledger_stock,
+  latest.id AS count_id,
+  latest.counted_quantity,
+  latest.ledger_quantity,
+  latest.counted_quantity - latest.ledger_quantity AS variance,
+  latest.adjustment_id,
+  latest.counted_at
+FROM products
+LEFT JOIN LATERAL (
+  SELECT *
+  FROM stock_counts
+  WHERE stock_counts.product_id = products.id
+  ORDER BY counted_at DESC
+  LIMIT 1
+) latest ON true;
+
+CREATE OR REPLACE FUNCTION reconcile_stock_count(p_count_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_count stock_counts;
+  v_adjustment_id uuid;
+BEGIN
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND OR v_count.adjustment_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Stock count not found or already reconciled';
+  END IF;
+
+  IF v_count.counted_quantity = v_count.ledger_quantity THEN
+    RAISE EXCEPTION 'Stock count matches the ledger';
+  END IF;
+
+  INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note)
+  VALUES (
+    v_count.shop_id,
+    v_count.product_id,
+    'adjustment',
+    v_count.counted_quantity - v_count.ledger_quantity,
+    'Stock count reconciliation'
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  UPDATE stock_counts SET adjustment_id = v_adjustment_id WHERE id = p_count_id;
+
+  RETURN v_adjustment_id;
+END;
+$$;
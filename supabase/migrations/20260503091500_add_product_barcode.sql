@@ -0,0 +1,18 @@
+/*
+  # Product barcodes
+
+  ## Modified Tables
+
+  ### `products`
+  - `barcode` (text) - Barcode or SKU printed on the product, used to add it
+    to a daily sales entry by scanning; unique within a shop
+
+  ## Security
+  - No changes; products keep their existing RLS policies
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS barcode text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS products_shop_id_barcode_key
+  ON products(shop_id, barcode)
+  WHERE barcode IS NOT NULL;
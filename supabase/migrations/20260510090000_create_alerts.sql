@@ -0,0 +1,278 @@
+/*
+  # Stock and risk alerts
+
+  ## New Tables
+
+  ### `alert_rules`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `rule` (text) - below_reorder_point, high_risk or forecast_drop
+  - `enabled` (boolean)
+  - `threshold` (decimal) - Percentage drop for forecast_drop; unused by the other rules
+  - Shops without a row for a rule use the defaults: enabled, 30% threshold
+
+  ### `alerts`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `product_id` (uuid, references products)
+  - `rule` (text) - Rule that raised the alert
+  - `run_id` (uuid) - Forecast run the alert was raised against; each rule
+    alerts at most once per product per run
+  - `message` (text)
+  - `acknowledged_at` (timestamptz), `acknowledged_by` (uuid, references auth.users)
+  - `snoozed_until` (timestamptz) - Hidden from the open list until then
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `evaluate_alerts(shop_id, product_id)` - Raises alerts for the shop, or for
+    one product, from the latest forecast runs and current stock
+
+  ## Triggers
+  - New forecast rows and stock decreases evaluate the affected shop or product
+
+  ## Security
+  - Enable RLS on both tables
+  - Users can only access rules and alerts for their own shops
+*/
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  rule text NOT NULL CHECK (rule IN ('below_reorder_point', 'high_risk', 'forecast_drop')),
+  enabled boolean NOT NULL DEFAULT true,
+  threshold decimal(5,2) NOT NULL DEFAULT 30 CHECK (threshold > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (shop_id, rule)
+);
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  rule text NOT NULL CHECK (rule IN ('below_reorder_point', 'high_risk', 'forecast_drop')),
+  run_id uuid NOT NULL,
+  message text NOT NULL,
+  acknowledged_at timestamptz,
+  acknowledged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  snoozed_until timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, rule, run_id)
+);
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view alert rules from own shops"
+  ON alert_rules FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alert_rules.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert alert rules to own shops"
+  ON alert_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alert_rules.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update alert rules in own shops"
+  ON alert_rules FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alert_rules.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alert_rules.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete alert rules from own shops"
+  ON alert_rules FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alert_rules.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view alerts from own shops"
+  ON alerts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alerts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert alerts to own shops"
+  ON alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alerts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update alerts in own shops"
+  ON alerts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alerts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alerts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete alerts from own shops"
+  ON alerts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops
+      WHERE shops.id = alerts.shop_id
+      AND shops.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION evaluate_alerts(p_shop_id uuid, p_product_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_reorder boolean;
+  v_high_risk boolean;
+  v_drop boolean;
+  v_drop_threshold decimal;
+BEGIN
+  SELECT
+    coalesce(bool_or(enabled) FILTER (WHERE rule = 'below_reorder_point'), true),
+    coalesce(bool_or(enabled) FILTER (WHERE rule = 'high_risk'), true),
+    coalesce(bool_or(enabled) FILTER (WHERE rule = 'forecast_drop'), true),
+    coalesce(max(threshold) FILTER (WHERE rule = 'forecast_drop'), 30)
+  INTO v_reorder, v_high_risk, v_drop, v_drop_threshold
+  FROM alert_rules
+  WHERE shop_id = p_shop_id;
+
+  IF v_reorder THEN
+    INSERT INTO alerts (shop_id, product_id, rule, run_id, message)
+    SELECT p_shop_id, products.id, 'below_reorder_point', latest.run_id,
+      products.name || ' is down to ' || products.current_stock
+        || ' units, below its reorder point of ' || latest.reorder_point
+    FROM latest_product_forecasts latest
+    JOIN products ON products.id = latest.product_id
+    WHERE latest.shop_id = p_shop_id
+    AND (p_product_id IS NULL OR latest.product_id = p_product_id)
+    AND products.current_stock < latest.reorder_point
+    ON CONFLICT (product_id, rule, run_id) DO NOTHING;
+  END IF;
+
+  IF v_high_risk THEN
+    INSERT INTO alerts (shop_id, product_id, rule, run_id, message)
+    SELECT p_shop_id, products.id, 'high_risk', latest.run_id,
+      products.name || ' has a high stockout risk in its latest forecast'
+    FROM latest_product_forecasts latest
+    JOIN products ON products.id = latest.product_id
+    WHERE latest.shop_id = p_shop_id
+    AND (p_product_id IS NULL OR latest.product_id = p_product_id)
+    AND latest.risk_level = 'High'
+    ON CONFLICT (product_id, rule, run_id) DO NOTHING;
+  END IF;
+
+  IF v_drop THEN
+    INSERT INTO alerts (shop_id, product_id, rule, run_id, message)
+    SELECT p_shop_id, products.id, 'forecast_drop', runs.run_id,
+      products.name || ' forecast demand fell '
+        || round((1 - runs.daily_demand / runs.previous_daily_demand) * 100)
+        || '% since the previous forecast'
+    FROM (
+      SELECT
+        product_id,
+        run_id,
+        daily_demand,
+        lag(daily_demand) OVER (PARTITION BY product_id ORDER BY created_at) AS previous_daily_demand,
+        row_number() OVER (PARTITION BY product_id ORDER BY created_at DESC) AS recency
+      FROM (
+        SELECT product_id, run_id, avg(predicted_demand) AS daily_demand, max(created_at) AS created_at
+        FROM forecasts
+        WHERE shop_id = p_shop_id
+        AND (p_product_id IS NULL OR product_id = p_product_id)
+        GROUP BY product_id, run_id
+      ) per_run
+    ) runs
+    JOIN products ON products.id = runs.product_id
+    WHERE runs.recency = 1
+    AND runs.previous_daily_demand > 0
+    AND (1 - runs.daily_demand / runs.previous_daily_demand) * 100 > v_drop_threshold
+    ON CONFLICT (product_id, rule, run_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_alerts_for_forecasts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shop_id uuid;
+BEGIN
+  FOR v_shop_id IN SELECT DISTINCT shop_id FROM new_forecasts LOOP
+    PERFORM evaluate_alerts(v_shop_id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER forecasts_evaluate_alerts
+  AFTER INSERT ON forecasts
+  REFERENCING NEW TABLE AS new_forecasts
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION evaluate_alerts_for_forecasts();
+
+CREATE OR REPLACE FUNCTION evaluate_alerts_for_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM evaluate_alerts(NEW.shop_id, NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER products_evaluate_stock_alerts
+  AFTER UPDATE OF current_stock ON products
+  FOR EACH ROW
+  WHEN (NEW.current_stock < OLD.current_stock)
+  EXECUTE FUNCTION evaluate_alerts_for_stock();
+
+CREATE INDEX IF NOT EXISTS alerts_shop_id_created_at_idx ON alerts(shop_id, created_at DESC);
@@ -0,0 +1,591 @@
+/*
+  # Shop members and role-based access
+
+  ## New Tables
+
+  ### `shop_members`
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid, references shops)
+  - `user_id` (uuid, references auth.users) - Null until the invitation is accepted
+  - `email` (text) - Invited email address, stored lower case
+  - `role` (text) - owner, manager, staff or viewer
+  - `invited_by` (uuid, references auth.users)
+  - `accepted_at` (timestamptz)
+  - `created_at` (timestamptz)
+
+  ## Roles
+  - viewer: read everything in the shop
+  - staff: also enter sales, record stock movements and counts, generate
+    forecasts and acknowledge alerts
+  - manager: also manage products, suppliers, orders, festivals, alert rules and
+    shop settings, roll back imports, and invite staff and viewers
+  - owner: also delete the shop and manage managers
+
+  ## Functions
+  - `has_shop_role(shop_id, role)` - Whether the current user has at least the
+    given role in the shop; shops.owner_id always counts as owner
+  - `accept_shop_invitations()` - Links pending invitations for the current
+    user's confirmed email address to their account
+
+  ## Security
+  - Every shop table's owner-only policies are replaced with role-based ones
+  - Triggers that maintain derived data (stock levels, alerts) run as the
+    table owner, so staff can post sales without product write access
+  - The owner membership row cannot be changed or removed, and shops cannot be
+    transferred by changing owner_id
+  - Because stock triggers run as the table owner, every row that names both a
+    shop and a product must use a product of that shop: composite foreign keys
+    on (product_id, shop_id) enforce it, and purchase order items must belong to
+    the order's shop
+  - Invitations are created unaccepted, and a member's shop, email, user_id and
+    accepted_at can only be set by `accept_shop_invitations()`, so nobody can be
+    added to a shop without signing in with the invited email address
+*/
+
+CREATE TABLE IF NOT EXISTS shop_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(email)),
+  role text NOT NULL CHECK (role IN ('owner', 'manager', 'staff', 'viewer')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (shop_id, email),
+  UNIQUE (shop_id, user_id)
+);
+
+INSERT INTO shop_members (shop_id, user_id, email, role, invited_by, accepted_at)
+SELECT shops.id, shops.owner_id, lower(users.email), 'owner', shops.owner_id, now()
+FROM shops
+JOIN auth.users users ON users.id = shops.owner_id
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION shop_role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 4
+    WHEN 'manager' THEN 3
+    WHEN 'staff' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_shop_role(p_shop_id uuid, p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shops
+    WHERE shops.id = p_shop_id
+    AND shops.owner_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM shop_members
+    WHERE shop_members.shop_id = p_shop_id
+    AND shop_members.user_id = auth.uid()
+    AND shop_role_rank(shop_members.role) >= shop_role_rank(p_role)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION accept_shop_invitations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_accepted integer;
+BEGIN
+  PERFORM set_config('salesy.accepting_invitations', 'on', true);
+  UPDATE shop_members
+  SET user_id = auth.uid(), accepted_at = now()
+  WHERE user_id IS NULL
+  AND email = (
+    SELECT lower(email) FROM auth.users
+    WHERE id = auth.uid()
+    AND email_confirmed_at IS NOT NULL
+  );
+
+  GET DIAGNOSTICS v_accepted = ROW_COUNT;
+  PERFORM set_config('salesy.accepting_invitations', 'off', true);
+  RETURN v_accepted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_shop_owner_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO shop_members (shop_id, user_id, email, role, invited_by, accepted_at)
+  SELECT NEW.id, NEW.owner_id, lower(users.email), 'owner', NEW.owner_id, now()
+  FROM auth.users users
+  WHERE users.id = NEW.owner_id
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shops_add_owner_member
+  AFTER INSERT ON shops
+  FOR EACH ROW
+  EXECUTE FUNCTION add_shop_owner_member();
+
+CREATE OR REPLACE FUNCTION guard_shop_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Shop ownership cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shops_guard_owner
+  BEFORE UPDATE OF owner_id ON shops
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_shop_owner();
+
+CREATE OR REPLACE FUNCTION guard_shop_member_identity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.shop_id IS DISTINCT FROM OLD.shop_id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at)
+    AND coalesce(current_setting('salesy.accepting_invitations', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Only the role of a shop member can be changed; invite the new email address instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shop_members_guard_identity
+  BEFORE UPDATE ON shop_members
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_shop_member_identity();
+
+ALTER TABLE products ADD CONSTRAINT products_id_shop_id_key UNIQUE (id, shop_id);
+
+ALTER TABLE inventory_transactions ADD CONSTRAINT inventory_transactions_product_shop_fkey
+  FOREIGN KEY (product_id, shop_id) REFERENCES products(id, shop_id) ON DELETE CASCADE;
+ALTER TABLE sales_data ADD CONSTRAINT sales_data_product_shop_fkey
+  FOREIGN KEY (product_id, shop_id) REFERENCES products(id, shop_id) ON DELETE CASCADE;
+ALTER TABLE forecasts ADD CONSTRAINT forecasts_product_shop_fkey
+  FOREIGN KEY (product_id, shop_id) REFERENCES products(id, shop_id) ON DELETE CASCADE;
+ALTER TABLE stock_counts ADD CONSTRAINT stock_counts_product_shop_fkey
+  FOREIGN KEY (product_id, shop_id) REFERENCES products(id, shop_id) ON DELETE CASCADE;
+ALTER TABLE alerts ADD CONSTRAINT alerts_product_shop_fkey
+  FOREIGN KEY (product_id, shop_id) REFERENCES products(id, shop_id) ON DELETE CASCADE;
+
+ALTER FUNCTION apply_inventory_transaction() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION evaluate_alerts_for_forecasts() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION evaluate_alerts_for_stock() SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE shop_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view shop members"
+  ON shop_members FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Managers can invite shop members"
+  ON shop_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    role <> 'owner'
+    AND user_id IS NULL
+    AND accepted_at IS NULL
+    AND (
+      has_shop_role(shop_id, 'owner')
+      OR (has_shop_role(shop_id, 'manager') AND role IN ('staff', 'viewer'))
+    )
+  );
+
+CREATE POLICY "Managers can update shop members"
+  ON shop_members FOR UPDATE
+  TO authenticated
+  USING (
+    role <> 'owner'
+    AND (
+      has_shop_role(shop_id, 'owner')
+      OR (has_shop_role(shop_id, 'manager') AND role IN ('staff', 'viewer'))
+    )
+  )
+  WITH CHECK (
+    role <> 'owner'
+    AND (
+      has_shop_role(shop_id, 'owner')
+      OR (has_shop_role(shop_id, 'manager') AND role IN ('staff', 'viewer'))
+    )
+  );
+
+CREATE POLICY "Managers can remove shop members"
+  ON shop_members FOR DELETE
+  TO authenticated
+  USING (
+    role <> 'owner'
+    AND (
+      user_id = auth.uid()
+      OR has_shop_role(shop_id, 'owner')
+      OR (has_shop_role(shop_id, 'manager') AND role IN ('staff', 'viewer'))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own shops" ON shops;
+DROP POLICY IF EXISTS "Users can update own shops" ON shops;
+DROP POLICY IF EXISTS "Users can delete own shops" ON shops;
+DROP POLICY IF EXISTS "Users can view products from own shops" ON products;
+DROP POLICY IF EXISTS "Users can create products in own shops" ON products;
+DROP POLICY IF EXISTS "Users can update products in own shops" ON products;
+DROP POLICY IF EXISTS "Users can delete products from own shops" ON products;
+DROP POLICY IF EXISTS "Users can view sales data from own shops" ON sales_data;
+DROP POLICY IF EXISTS "Users can create sales data for own shops" ON sales_data;
+DROP POLICY IF EXISTS "Users can update sales data for own shops" ON sales_data;
+DROP POLICY IF EXISTS "Users can delete sales data from own shops" ON sales_data;
+DROP POLICY IF EXISTS "Users can view forecasts from own shops" ON forecasts;
+DROP POLICY IF EXISTS "Users can create forecasts for own shops" ON forecasts;
+DROP POLICY IF EXISTS "Users can update forecasts for own shops" ON forecasts;
+DROP POLICY IF EXISTS "Users can delete forecasts from own shops" ON forecasts;
+DROP POLICY IF EXISTS "Users can view festival calendar from own shops" ON festival_calendar;
+DROP POLICY IF EXISTS "Users can create festival calendar entries for own shops" ON festival_calendar;
+DROP POLICY IF EXISTS "Users can update festival calendar entries for own shops" ON festival_calendar;
+DROP POLICY IF EXISTS "Users can delete festival calendar entries from own shops" ON festival_calendar;
+DROP POLICY IF EXISTS "Users can view import batches from own shops" ON import_batches;
+DROP POLICY IF EXISTS "Users can create import batches for own shops" ON import_batches;
+DROP POLICY IF EXISTS "Users can update import batches for own shops" ON import_batches;
+DROP POLICY IF EXISTS "Users can delete import batches from own shops" ON import_batches;
+DROP POLICY IF EXISTS "Users can view suppliers from own shops" ON suppliers;
+DROP POLICY IF EXISTS "Users can create suppliers for own shops" ON suppliers;
+DROP POLICY IF EXISTS "Users can update suppliers for own shops" ON suppliers;
+DROP POLICY IF EXISTS "Users can delete suppliers from own shops" ON suppliers;
+DROP POLICY IF EXISTS "Users can view purchase orders from own shops" ON purchase_orders;
+DROP POLICY IF EXISTS "Users can create purchase orders for own shops" ON purchase_orders;
+DROP POLICY IF EXISTS "Users can update purchase orders for own shops" ON purchase_orders;
+DROP POLICY IF EXISTS "Users can delete purchase orders from own shops" ON purchase_orders;
+DROP POLICY IF EXISTS "Users can view purchase order items from own shops" ON purchase_order_items;
+DROP POLICY IF EXISTS "Users can create purchase order items for own shops" ON purchase_order_items;
+DROP POLICY IF EXISTS "Users can update purchase order items for own shops" ON purchase_order_items;
+DROP POLICY IF EXISTS "Users can delete purchase order items from own shops" ON purchase_order_items;
+DROP POLICY IF EXISTS "Users can view inventory transactions from own shops" ON inventory_transactions;
+DROP POLICY IF EXISTS "Users can record inventory transactions for own shops" ON inventory_transactions;
+DROP POLICY IF EXISTS "Users can view stock counts from own shops" ON stock_counts;
+DROP POLICY IF EXISTS "Users can insert stock counts to own shops" ON stock_counts;
+DROP POLICY IF EXISTS "Users can update stock counts in own shops" ON stock_counts;
+DROP POLICY IF EXISTS "Users can delete stock counts from own shops" ON stock_counts;
+DROP POLICY IF EXISTS "Users can view alert rules from own shops" ON alert_rules;
+DROP POLICY IF EXISTS "Users can insert alert rules to own shops" ON alert_rules;
+DROP POLICY IF EXISTS "Users can update alert rules in own shops" ON alert_rules;
+DROP POLICY IF EXISTS "Users can delete alert rules from own shops" ON alert_rules;
+DROP POLICY IF EXISTS "Users can view alerts from own shops" ON alerts;
+DROP POLICY IF EXISTS "Users can insert alerts to own shops" ON alerts;
+DROP POLICY IF EXISTS "Users can update alerts in own shops" ON alerts;
+DROP POLICY IF EXISTS "Users can delete alerts from own shops" ON alerts;
+
+CREATE POLICY "Members can view shops"
+  ON shops FOR SELECT
+  TO authenticated
+  USING (has_shop_role(id, 'viewer'));
+
+CREATE POLICY "Managers can update shops"
+  ON shops FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(id, 'manager'))
+  WITH CHECK (has_shop_role(id, 'manager'));
+
+CREATE POLICY "Owners can delete shops"
+  ON shops FOR DELETE
+  TO authenticated
+  USING (has_shop_role(id, 'owner'));
+
+CREATE POLICY "Members can view products"
+  ON products FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Managers can create products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete products"
+  ON products FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view sales data"
+  ON sales_data FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create sales data"
+  ON sales_data FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Staff can update sales data"
+  ON sales_data FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'staff'))
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Managers can delete sales data"
+  ON sales_data FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view forecasts"
+  ON forecasts FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create forecasts"
+  ON forecasts FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Managers can update forecasts"
+  ON forecasts FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete forecasts"
+  ON forecasts FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view festival calendar entries"
+  ON festival_calendar FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Managers can create festival calendar entries"
+  ON festival_calendar FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can update festival calendar entries"
+  ON festival_calendar FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete festival calendar entries"
+  ON festival_calendar FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view import batches"
+  ON import_batches FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create import batches"
+  ON import_batches FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Managers can update import batches"
+  ON import_batches FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete import batches"
+  ON import_batches FOR DELETE
+  TO authenticated
+  USING (uploaded_by = auth.uid() OR has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Managers can create suppliers"
+  ON suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can update suppliers"
+  ON suppliers FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete suppliers"
+  ON suppliers FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view purchase orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Managers can create purchase orders"
+  ON purchase_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can update purchase orders"
+  ON purchase_orders FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete purchase orders"
+  ON purchase_orders FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view purchase order items"
+  ON purchase_order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND has_shop_role(purchase_orders.shop_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Managers can create purchase order items"
+  ON purchase_order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN products ON products.id = purchase_order_items.product_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND products.shop_id = purchase_orders.shop_id
+      AND has_shop_role(purchase_orders.shop_id, 'manager')
+    )
+  );
+
+CREATE POLICY "Managers can update purchase order items"
+  ON purchase_order_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND has_shop_role(purchase_orders.shop_id, 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      JOIN products ON products.id = purchase_order_items.product_id
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND products.shop_id = purchase_orders.shop_id
+      AND has_shop_role(purchase_orders.shop_id, 'manager')
+    )
+  );
+
+CREATE POLICY "Managers can delete purchase order items"
+  ON purchase_order_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND has_shop_role(purchase_orders.shop_id, 'manager')
+    )
+  );
+
+CREATE POLICY "Members can view inventory transactions"
+  ON inventory_transactions FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create inventory transactions"
+  ON inventory_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Members can view stock counts"
+  ON stock_counts FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create stock counts"
+  ON stock_counts FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Managers can update stock counts"
+  ON stock_counts FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete stock counts"
+  ON stock_counts FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view alert rules"
+  ON alert_rules FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Managers can create alert rules"
+  ON alert_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can update alert rules"
+  ON alert_rules FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'))
+  WITH CHECK (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Managers can delete alert rules"
+  ON alert_rules FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE POLICY "Members can view alerts"
+  ON alerts FOR SELECT
+  TO authenticated
+  USING (has_shop_role(shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create alerts"
+  ON alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Staff can update alerts"
+  ON alerts FOR UPDATE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'staff'))
+  WITH CHECK (has_shop_role(shop_id, 'staff'));
+
+CREATE POLICY "Managers can delete alerts"
+  ON alerts FOR DELETE
+  TO authenticated
+  USING (has_shop_role(shop_id, 'manager'));
+
+CREATE INDEX IF NOT EXISTS shop_members_user_id_idx ON shop_members(user_id);
+CREATE INDEX IF NOT EXISTS shop_members_email_idx ON shop_members(email);
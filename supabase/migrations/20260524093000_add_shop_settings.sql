@@ -0,0 +1,23 @@
+/*
+  # Shop settings and archiving
+
+  ## Modified Tables
+
+  ### `shops`
+  - `archived_at` (timestamptz) - Archived shops are hidden from the shop
+    selector but keep all their data
+  - `currency` (text) - ISO 4217 code used to display prices and revenue
+  - `timezone` (text) - IANA time zone that decides which day "today" is
+  - `default_horizon` (integer) - Forecast horizon preselected on the forecast tab
+
+  ## Security
+  - No changes; editing and archiving need the manager role and deleting needs
+    the owner role, as set up with shop members
+*/
+
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'INR'
+  CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS default_horizon integer NOT NULL DEFAULT 7
+  CHECK (default_horizon IN (7, 14, 30, 90));
@@ -0,0 +1,227 @@
+/*
+  # Inter-shop stock transfers
+
+  ## New Tables
+
+  ### `stock_transfers`
+  - `id` (uuid, primary key)
+  - `from_shop_id` (uuid, references shops) - Shop the stock leaves
+  - `to_shop_id` (uuid, references shops) - Shop the stock arrives at
+  - `status` (text) - pending, completed or cancelled
+  - `note` (text)
+  - `created_by` (uuid, references auth.users)
+  - `created_at` (timestamptz)
+  - `completed_by` (uuid, references auth.users)
+  - `completed_at` (timestamptz)
+
+  ### `stock_transfer_items`
+  - `id` (uuid, primary key)
+  - `transfer_id` (uuid, references stock_transfers)
+  - `from_product_id` (uuid, references products) - Product row in the source shop
+  - `to_product_id` (uuid, references products) - Matching product row in the destination shop
+  - `quantity` (integer) - Units moved, always positive
+
+  ## Modified Tables
+
+  ### `inventory_transactions`
+  - New `transfer_out` (negative) and `transfer_in` (positive) movement types
+  - `stock_transfer_id` (uuid, references stock_transfers) - Set for transfer movements
+
+  ## Functions
+  - `complete_stock_transfer(transfer_id)` posts a transfer_out in the source shop
+    and a transfer_in in the destination shop for every item in one transaction,
+    and fails without moving anything if the source is short of stock
+
+  ## Security
+  - Enable RLS on both tables
+  - Members of either shop can view a transfer
+  - Creating, editing and cancelling a pending transfer needs the staff role in
+    both shops; completion only happens through `complete_stock_transfer`, which
+    checks the same roles
+*/
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  to_shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'cancelled')),
+  note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  completed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  CHECK (from_shop_id <> to_shop_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id uuid REFERENCES stock_transfers(id) ON DELETE CASCADE NOT NULL,
+  from_product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  to_product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  UNIQUE(transfer_id, from_product_id)
+);
+
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS stock_transfer_id uuid REFERENCES stock_transfers(id) ON DELETE SET NULL;
+
+ALTER TABLE inventory_transactions DROP CONSTRAINT IF EXISTS inventory_transactions_type_check;
+ALTER TABLE inventory_transactions DROP CONSTRAINT IF EXISTS inventory_transactions_check;
+
+ALTER TABLE inventory_transactions ADD CONSTRAINT inventory_transactions_type_check
+  CHECK (type IN ('sale', 'receipt', 'adjustment', 'return', 'damage', 'transfer_out', 'transfer_in'));
+
+ALTER TABLE inventory_transactions ADD CONSTRAINT inventory_transactions_check
+  CHECK (
+    (type IN ('sale', 'damage', 'transfer_out') AND quantity < 0)
+    OR (type IN ('receipt', 'return', 'transfer_in') AND quantity > 0)
+    OR type = 'adjustment'
+  );
+
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view stock transfers"
+  ON stock_transfers FOR SELECT
+  TO authenticated
+  USING (has_shop_role(from_shop_id, 'viewer') OR has_shop_role(to_shop_id, 'viewer'));
+
+CREATE POLICY "Staff can create stock transfers"
+  ON stock_transfers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND has_shop_role(from_shop_id, 'staff')
+    AND has_shop_role(to_shop_id, 'staff')
+  );
+
+CREATE POLICY "Staff can cancel pending stock transfers"
+  ON stock_transfers FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'pending'
+    AND has_shop_role(from_shop_id, 'staff')
+    AND has_shop_role(to_shop_id, 'staff')
+  )
+  WITH CHECK (
+    status = 'cancelled'
+    AND has_shop_role(from_shop_id, 'staff')
+    AND has_shop_role(to_shop_id, 'staff')
+  );
+
+CREATE POLICY "Staff can delete pending stock transfers"
+  ON stock_transfers FOR DELETE
+  TO authenticated
+  USING (
+    status = 'pending'
+    AND has_shop_role(from_shop_id, 'staff')
+    AND has_shop_role(to_shop_id, 'staff')
+  );
+
+CREATE POLICY "Members can view stock transfer items"
+  ON stock_transfer_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stock_transfers
+      WHERE stock_transfers.id = stock_transfer_items.transfer_id
+      AND (has_shop_role(stock_transfers.from_shop_id, 'viewer') OR has_shop_role(stock_transfers.to_shop_id, 'viewer'))
+    )
+  );
+
+CREATE POLICY "Staff can add items to pending stock transfers"
+  ON stock_transfer_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM stock_transfers
+      JOIN products AS from_product ON from_product.id = stock_transfer_items.from_product_id
+      JOIN products AS to_product ON to_product.id = stock_transfer_items.to_product_id
+      WHERE stock_transfers.id = stock_transfer_items.transfer_id
+      AND stock_transfers.status = 'pending'
+      AND from_product.shop_id = stock_transfers.from_shop_id
+      AND to_product.shop_id = stock_transfers.to_shop_id
+      AND has_shop_role(stock_transfers.from_shop_id, 'staff')
+      AND has_shop_role(stock_transfers.to_shop_id, 'staff')
+    )
+  );
+
+CREATE POLICY "Staff can delete items from pending stock transfers"
+  ON stock_transfer_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stock_transfers
+      WHERE stock_transfers.id = stock_transfer_items.transfer_id
+      AND stock_transfers.status = 'pending'
+      AND has_shop_role(stock_transfers.from_shop_id, 'staff')
+      AND has_shop_role(stock_transfers.to_shop_id, 'staff')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION complete_stock_transfer(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+  v_short text;
+BEGIN
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND OR v_transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transfer not found or no longer pending';
+  END IF;
+
+  IF NOT has_shop_role(v_transfer.from_shop_id, 'staff') OR NOT has_shop_role(v_transfer.to_shop_id, 'staff') THEN
+    RAISE EXCEPTION 'Completing a transfer needs the staff role in both shops';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM stock_transfer_items WHERE transfer_id = p_transfer_id) THEN
+    RAISE EXCEPTION 'Transfer has no items';
+  END IF;
+
+  -- Lock the source rows so concurrent sales can't take the stock while it is checked and moved
+  PERFORM 1 FROM products
+  WHERE id IN (SELECT from_product_id FROM stock_transfer_items WHERE transfer_id = p_transfer_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT string_agg(products.name || ' (' || products.current_stock || ' in stock)', ', ')
+  INTO v_short
+  FROM stock_transfer_items
+  JOIN products ON products.id = stock_transfer_items.from_product_id
+  WHERE stock_transfer_items.transfer_id = p_transfer_id
+  AND products.current_stock < stock_transfer_items.quantity;
+
+  IF v_short IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock to transfer: %', v_short;
+  END IF;
+
+  INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note, stock_transfer_id)
+  SELECT v_transfer.from_shop_id, items.from_product_id, 'transfer_out', -items.quantity,
+    'Transfer to ' || shops.name, v_transfer.id
+  FROM stock_transfer_items AS items
+  JOIN shops ON shops.id = v_transfer.to_shop_id
+  WHERE items.transfer_id = p_transfer_id;
+
+  INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note, stock_transfer_id)
+  SELECT v_transfer.to_shop_id, items.to_product_id, 'transfer_in', items.quantity,
+    'Transfer from ' || shops.name, v_transfer.id
+  FROM stock_transfer_items AS items
+  JOIN shops ON shops.id = v_transfer.from_shop_id
+  WHERE items.transfer_id = p_transfer_id;
+
+  UPDATE stock_transfers
+  SET status = 'completed', completed_by = auth.uid(), completed_at = now()
+  WHERE id = p_transfer_id;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS stock_transfers_from_shop_id_idx ON stock_transfers(from_shop_id);
+CREATE INDEX IF NOT EXISTS stock_transfers_to_shop_id_idx ON stock_transfers(to_shop_id);
+CREATE INDEX IF NOT EXISTS stock_transfer_items_transfer_id_idx ON stock_transfer_items(transfer_id);
+CREATE INDEX IF NOT EXISTS stock_transfer_items_from_product_id_idx ON stock_transfer_items(from_product_id);
+CREATE INDEX IF NOT EXISTS stock_transfer_items_to_product_id_idx ON stock_transfer_items(to_product_id);
@@ -0,0 +1,38 @@
+/*
+  # Create products with their opening stock
+
+  ## Functions
+  - `create_product(product, opening_stock)` inserts a product and posts its
+    opening stock as an 'Opening balance' adjustment in one transaction, so a
+    product is never left behind without the stock it was created with
+
+  ## Security
+  - Runs as the caller, so creating products still needs the manager role
+*/
+
+CREATE OR REPLACE FUNCTION create_product(p_product jsonb, p_opening_stock integer DEFAULT 0)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+BEGIN
+  INSERT INTO products (
+    shop_id, name, category, brand, unit_price, lead_time_days, service_level, gap_fill,
+    supplier_id, minimum_order_quantity, case_pack_size, cost_price, barcode
+  )
+  SELECT
+    shop_id, name, category, brand, unit_price, lead_time_days, service_level, gap_fill,
+    supplier_id, minimum_order_quantity, case_pack_size, cost_price, barcode
+  FROM jsonb_populate_record(NULL::products, p_product)
+  RETURNING * INTO v_product;
+
+  IF p_opening_stock > 0 THEN
+    INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note)
+    VALUES (v_product.shop_id, v_product.id, 'adjustment', p_opening_stock, 'Opening balance');
+  END IF;
+
+  RETURN v_product.id;
+END;
+$$;
@@ -0,0 +1,77 @@
+/*
+  # Add sales on the server
+
+  ## Functions
+  - `add_sales(shop_id, file_name, rows, rejected_rows)` records an import
+    batch and adds each row's quantity and revenue to the product day it
+    falls on, creating the day if it has no sales yet. The addition happens
+    in the insert itself, so two entries saved at the same time both count.
+    The batch keeps the values the rows were added to, read under a row
+    lock, so rolling it back restores them
+
+  ## Security
+  - Runs as the caller, so adding sales still needs the staff role
+*/
+
+CREATE OR REPLACE FUNCTION add_sales(
+  p_shop_id uuid,
+  p_file_name text,
+  p_rows jsonb,
+  p_rejected_rows integer DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_replaced jsonb;
+BEGIN
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'product_id', existing.product_id,
+    'date', existing.date,
+    'quantity_sold', existing.quantity_sold,
+    'revenue', existing.revenue,
+    'is_festival', existing.is_festival,
+    'batch_id', existing.batch_id
+  )), '[]')
+  INTO v_replaced
+  FROM (
+    SELECT sales_data.*
+    FROM sales_data
+    JOIN jsonb_to_recordset(p_rows) AS r(product_id uuid, date date)
+      ON sales_data.product_id = r.product_id AND sales_data.date = r.date
+    WHERE sales_data.shop_id = p_shop_id
+    ORDER BY sales_data.id
+    FOR UPDATE OF sales_data
+  ) AS existing;
+
+  INSERT INTO import_batches (
+    shop_id, file_name, product_ids, inserted_rows, updated_rows, rejected_rows, replaced_rows
+  )
+  SELECT p_shop_id, p_file_name,
+    ARRAY(SELECT DISTINCT (r->>'product_id')::uuid FROM jsonb_array_elements(p_rows) AS r),
+    jsonb_array_length(p_rows) - jsonb_array_length(v_replaced),
+    jsonb_array_length(v_replaced),
+    p_rejected_rows,
+    v_replaced
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO sales_data (product_id, shop_id, date, quantity_sold, revenue, is_festival, batch_id)
+  SELECT r.product_id, p_shop_id, r.date, r.quantity_sold, r.revenue, r.is_festival, v_batch_id
+  FROM jsonb_to_recordset(p_rows) AS r(
+    product_id uuid,
+    date date,
+    quantity_sold integer,
+    revenue decimal(10,2),
+    is_festival boolean
+  )
+  ON CONFLICT (product_id, date) DO UPDATE SET
+    quantity_sold = sales_data.quantity_sold + EXCLUDED.quantity_sold,
+    revenue = sales_data.revenue + EXCLUDED.revenue,
+    is_festival = sales_data.is_festival OR EXCLUDED.is_festival,
+    batch_id = EXCLUDED.batch_id;
+
+  RETURN v_batch_id;
+END;
+$$;
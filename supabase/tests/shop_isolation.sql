@@ -0,0 +1,107 @@
+/*
+  # Shop isolation regression checks
+
+  Run against a local database after applying the migrations:
+
+    psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/tests/shop_isolation.sql
+
+  Everything runs in one transaction that is rolled back. A failed check
+  raises an exception naming it.
+*/
+
+BEGIN;
+
+CREATE FUNCTION pg_temp.expect_rejected(p_check text, p_statement text)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  BEGIN
+    EXECUTE p_statement;
+  EXCEPTION WHEN OTHERS THEN
+    RETURN;
+  END;
+  RAISE EXCEPTION 'Check failed: % was accepted', p_check;
+END;
+$$;
+
+INSERT INTO auth.users (id, email, email_confirmed_at) VALUES
+  ('00000000-0000-4000-8000-00000000000a', 'owner-a@example.com', now()),
+  ('00000000-0000-4000-8000-00000000000b', 'owner-b@example.com', now());
+
+INSERT INTO shops (id, owner_id, name, category) VALUES
+  ('10000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-00000000000a', 'Shop A', 'Other'),
+  ('10000000-0000-4000-8000-00000000000b', '00000000-0000-4000-8000-00000000000b', 'Shop B', 'Other');
+
+INSERT INTO products (id, shop_id, name, brand, category, unit_price) VALUES
+  ('20000000-0000-4000-8000-00000000000a', '10000000-0000-4000-8000-00000000000a', 'Pen', 'Acme', 'Other', 10),
+  ('20000000-0000-4000-8000-00000000000b', '10000000-0000-4000-8000-00000000000b', 'Pen', 'Acme', 'Other', 10);
+
+INSERT INTO inventory_transactions (shop_id, product_id, type, quantity, note) VALUES
+  ('10000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-00000000000a', 'adjustment', 100, 'Opening balance'),
+  ('10000000-0000-4000-8000-00000000000b', '20000000-0000-4000-8000-00000000000b', 'adjustment', 100, 'Opening balance');
+
+INSERT INTO purchase_orders (id, shop_id, supplier) VALUES
+  ('30000000-0000-4000-8000-00000000000a', '10000000-0000-4000-8000-00000000000a', 'Supplier');
+
+-- Act as shop A's owner
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claim.sub', '00000000-0000-4000-8000-00000000000a', true);
+
+-- Shop B's product named under shop A must be rejected everywhere stock can change
+SELECT pg_temp.expect_rejected(
+  'ledger entry for another shop''s product',
+  $sql$
+    INSERT INTO inventory_transactions (shop_id, product_id, type, quantity)
+    VALUES ('10000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-00000000000b', 'damage', -90)
+  $sql$
+);
+
+SELECT pg_temp.expect_rejected(
+  'sales row for another shop''s product',
+  $sql$
+    INSERT INTO sales_data (shop_id, product_id, date, quantity_sold)
+    VALUES ('10000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-00000000000b', '2026-01-01', 5)
+  $sql$
+);
+
+SELECT pg_temp.expect_rejected(
+  'purchase order item for another shop''s product',
+  $sql$
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity)
+    VALUES ('30000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-00000000000b', 7)
+  $sql$
+);
+
+-- The same writes for shop A's own product still work
+INSERT INTO inventory_transactions (shop_id, product_id, type, quantity)
+VALUES ('10000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-00000000000a', 'damage', -10);
+
+INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity)
+VALUES ('30000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-00000000000a', 7);
+
+-- A product with sales posted to its ledger can still be deleted
+UPDATE shops SET post_sales_from = '2026-01-01' WHERE id = '10000000-0000-4000-8000-00000000000a';
+
+INSERT INTO products (id, shop_id, name, brand, category, unit_price)
+VALUES ('20000000-0000-4000-8000-0000000000a2', '10000000-0000-4000-8000-00000000000a', 'Pencil', 'Acme', 'Other', 5);
+
+INSERT INTO sales_data (shop_id, product_id, date, quantity_sold)
+VALUES ('10000000-0000-4000-8000-00000000000a', '20000000-0000-4000-8000-0000000000a2', '2026-01-02', 3);
+
+DELETE FROM products WHERE id = '20000000-0000-4000-8000-0000000000a2';
+
+RESET ROLE;
+
+DO $$
+BEGIN
+  IF (SELECT current_stock FROM products WHERE id = '20000000-0000-4000-8000-00000000000b') <> 100 THEN
+    RAISE EXCEPTION 'Check failed: shop B''s stock was changed from shop A';
+  END IF;
+  IF (SELECT current_stock FROM products WHERE id = '20000000-0000-4000-8000-00000000000a') <> 90 THEN
+    RAISE EXCEPTION 'Check failed: shop A''s own stock movement was not applied';
+  END IF;
+END;
+$$;
+
+ROLLBACK;